@@ -1,19 +1,28 @@
 import type { Debugger } from 'debug';
 import Debug from 'debug';
+import {
+  UniqueConstraintError,
+  ValidationError,
+} from '../../../database/error/index.js';
 import type { HttpContext, ManagedCollection } from '../../types.js';
+import getActor from './utils/actor.js';
+import { setEntityTag } from './utils/etag.js';
 import transform from './utils/index.js';
+import withoutManagedFields from './utils/managed-fields.js';
 
 const debug: Debugger = Debug('supersave:http:create');
 
 export default (collection: ManagedCollection) =>
   async (ctx: any): Promise<{ data: unknown }> => {
-    const body = ctx.body as Record<string, unknown>;
-
-    if (typeof body !== 'object' || body === null) {
+    if (typeof ctx.body !== 'object' || ctx.body === null) {
       throw ctx.error('BAD_REQUEST', {
         message: 'Request body is not an object.',
       });
     }
+    const body = withoutManagedFields(
+      collection,
+      ctx.body as Record<string, unknown>
+    );
 
     collection.relations.forEach((relation) => {
       if (body[relation.field]) {
@@ -77,9 +86,13 @@ export default (collection: ManagedCollection) =>
 
     try {
       item = await collection.repository.create(
-        itemBody as Parameters<typeof collection.repository.create>[0]
+        itemBody as Parameters<typeof collection.repository.create>[0],
+        { actor: await getActor(collection, httpContext) }
       );
       debug('Created collection item');
+      if (collection.versioning) {
+        setEntityTag(ctx, item);
+      }
 
       // transform hook
       try {
@@ -106,6 +119,15 @@ export default (collection: ManagedCollection) =>
       if ((error as { status?: unknown })?.status) {
         throw error; // Re-throw API errors
       }
+      if (error instanceof UniqueConstraintError) {
+        throw ctx.error('CONFLICT', { message: error.message });
+      }
+      if (error instanceof ValidationError) {
+        throw ctx.error('UNPROCESSABLE_ENTITY', {
+          message: error.message,
+          issues: error.issues,
+        });
+      }
       throw ctx.error('INTERNAL_SERVER_ERROR', {
         message: (error as Error).message,
       });
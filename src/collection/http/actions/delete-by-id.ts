@@ -1,6 +1,14 @@
 import type { Debugger } from 'debug';
 import Debug from 'debug';
+import { VERSION_FIELD } from '../../../database/entity-manager/utils.js';
+import {
+  ConflictError,
+  RelationRestrictError,
+} from '../../../database/error/index.js';
+import type { BaseEntity } from '../../../database/types.js';
 import type { HttpContext, ManagedCollection } from '../../types.js';
+import getActor from './utils/actor.js';
+import { checkIfMatch } from './utils/etag.js';
 
 const debug: Debugger = Debug('supersave:http:deleteById');
 
@@ -23,11 +31,18 @@ export default (collection: ManagedCollection) =>
         .map((hooks) => hooks.deleteBefore)
         .filter((deleteBefore) => typeof deleteBefore !== 'undefined');
 
-      if (deleteHooks.length > 0) {
-        const item = await repository.getById(id);
+      let item: unknown = null;
+      if (collection.versioning || deleteHooks.length > 0) {
+        item = await repository.getById(id);
         if (item === null) {
           throw ctx.error('NOT_FOUND', { message: 'Not found', meta: { id } });
         }
+      }
+      if (collection.versioning) {
+        checkIfMatch(ctx, item);
+      }
+
+      if (deleteHooks.length > 0) {
         for (const hooks of collection.hooks || []) {
           if (hooks.deleteBefore) {
             try {
@@ -56,7 +71,14 @@ export default (collection: ManagedCollection) =>
         }
       }
 
-      await repository.deleteUsingId(id);
+      // The delete only succeeds when the item still has the version that was checked.
+      await repository.deleteUsingId(id, {
+        actor: await getActor(collection, httpContext),
+        version: collection.versioning
+          ? (((item as BaseEntity)[VERSION_FIELD] as number | undefined) ??
+            null)
+          : undefined,
+      });
       debug('Deleted from', collection.name, id);
       // Return 204 No Content
       return new Response(null, { status: 204 });
@@ -65,6 +87,12 @@ export default (collection: ManagedCollection) =>
       if ((error as { status?: unknown })?.status) {
         throw error; // Re-throw API errors
       }
+      if (error instanceof RelationRestrictError) {
+        throw ctx.error('CONFLICT', { message: error.message });
+      }
+      if (error instanceof ConflictError) {
+        throw ctx.error('PRECONDITION_FAILED', { message: error.message });
+      }
       throw ctx.error('INTERNAL_SERVER_ERROR', {
         message: (error as Error).message,
       });
@@ -1,7 +1,10 @@
 import type { Debugger } from 'debug';
 import Debug from 'debug';
 import type { HttpContext, ManagedCollection } from '../../types.js';
+import { setEntityTag } from './utils/etag.js';
+import getExpandOptions from './utils/expand.js';
 import transform from './utils/index.js';
+import allowsWithDeleted from './utils/with-deleted.js';
 
 const debug: Debugger = Debug('supersave:http:getById');
 
@@ -9,17 +12,27 @@ export default (collection: ManagedCollection) =>
   async (ctx: any): Promise<{ data: unknown }> => {
     const { id } = ctx.params as { id: string };
     const { repository } = collection;
+    const queryParams = (ctx.query || {}) as Record<string, string>;
 
     const httpContext: HttpContext = {
       params: { id },
-      query: {},
+      query: queryParams,
       body: {},
       headers: ctx.headers ?? {},
       request: ctx.request,
     };
 
     try {
-      let item = await repository.getById(id);
+      const withDeleted = queryParams.withDeleted === 'true';
+      if (withDeleted && !(await allowsWithDeleted(collection, httpContext))) {
+        throw ctx.error('FORBIDDEN', {
+          message: 'Including the deleted items is not allowed.',
+        });
+      }
+      let item = await repository.getById(id, {
+        ...getExpandOptions(queryParams),
+        withDeleted,
+      });
 
       // hook
       for (const hooks of collection.hooks || []) {
@@ -47,6 +60,9 @@ export default (collection: ManagedCollection) =>
       if (item === null) {
         throw ctx.error('NOT_FOUND', { message: 'Not found', meta: { id } });
       }
+      if (collection.versioning) {
+        setEntityTag(ctx, item);
+      }
 
       // transform hook
       try {
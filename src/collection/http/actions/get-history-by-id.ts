@@ -0,0 +1,92 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { HistoryEntry } from '../../../database/types.js';
+import type { HttpContext, ManagedCollection } from '../../types.js';
+import transform from './utils/index.js';
+
+const debug: Debugger = Debug('supersave:http:getHistoryById');
+
+export default (collection: ManagedCollection) =>
+  async (ctx: any): Promise<{ data: unknown }> => {
+    const { id } = ctx.params as { id: string };
+    const { repository } = collection;
+
+    const httpContext: HttpContext = {
+      params: { id },
+      query: (ctx.query || {}) as Record<string, string>,
+      body: {},
+      headers: ctx.headers ?? {},
+      request: ctx.request,
+    };
+
+    try {
+      const history = await repository.getHistory(id);
+      if (history.length === 0) {
+        throw ctx.error('NOT_FOUND', { message: 'Not found', meta: { id } });
+      }
+
+      // The getById hooks decide if the item can be read, a deleted item is passed as it was recorded last.
+      let item: unknown =
+        (await repository.getById(id, { withDeleted: true })) ??
+        history[history.length - 1].entity;
+      for (const hooks of collection.hooks || []) {
+        if (hooks.getById) {
+          try {
+            item = await hooks.getById(collection, httpContext, item);
+          } catch (error: unknown) {
+            debug('Error thrown in getHistoryById getById hook %o', error);
+            const code = (error as { statusCode?: number })?.statusCode ?? 500;
+            const status =
+              code === 400
+                ? 'BAD_REQUEST'
+                : code === 401
+                  ? 'UNAUTHORIZED'
+                  : code === 403
+                    ? 'FORBIDDEN'
+                    : code === 404
+                      ? 'NOT_FOUND'
+                      : 'INTERNAL_SERVER_ERROR';
+            throw ctx.error(status, { message: (error as Error).message });
+          }
+        }
+      }
+      if (item === null) {
+        throw ctx.error('NOT_FOUND', { message: 'Not found', meta: { id } });
+      }
+
+      // The entities are transformed like the items, so the history does not contain fields that are left out.
+      const data: unknown[] = [];
+      for (const entry of history) {
+        try {
+          data.push({
+            ...entry,
+            entity: await transform(collection, httpContext, entry.entity),
+          } as HistoryEntry);
+        } catch (error: unknown) {
+          debug('Error thrown in getHistoryById transformHook %o', error);
+          const code = (error as { statusCode?: number })?.statusCode ?? 500;
+          const status =
+            code === 400
+              ? 'BAD_REQUEST'
+              : code === 401
+                ? 'UNAUTHORIZED'
+                : code === 403
+                  ? 'FORBIDDEN'
+                  : code === 404
+                    ? 'NOT_FOUND'
+                    : 'INTERNAL_SERVER_ERROR';
+          throw ctx.error(status, { message: (error as Error).message });
+        }
+      }
+
+      return { data };
+    } catch (error) {
+      debug('Error while fetching history of item with id %s, %o', id, error);
+      if ((error as { status?: unknown })?.status) {
+        throw error; // Re-throw API errors
+      }
+      throw ctx.error('INTERNAL_SERVER_ERROR', {
+        message: (error as Error).message,
+      });
+    }
+  };
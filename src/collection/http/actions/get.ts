@@ -4,7 +4,14 @@ import type { Query } from '../../../database/entity-manager/index.js';
 import type { FilterSortField } from '../../../database/types.js';
 import { QueryOperatorEnum } from '../../../database/types.js';
 import type { HttpContext, ManagedCollection } from '../../types.js';
+import getExpandOptions from './utils/expand.js';
+import {
+  type FilterExpression,
+  FilterExpressionError,
+  parseFilterExpression,
+} from './utils/filter-expression.js';
 import transform from './utils/index.js';
+import allowsWithDeleted from './utils/with-deleted.js';
 
 const debug: Debugger = Debug('supersave:http:get');
 
@@ -22,6 +29,79 @@ function sort(query: Query, sortRequest: string): void {
   });
 }
 
+function addFilter(
+  collection: ManagedCollection,
+  query: Query,
+  field: string,
+  value: string
+): void {
+  const filterSortFields: Record<string, FilterSortField> =
+    collection.filterSortFields || {};
+
+  const matches: string[] | null = (field || '').match(/(.*)\[(.*)\]$/);
+  if (matches === null || matches.length !== 3) {
+    if (filterSortFields[field] === 'boolean') {
+      query.eq(field, ['1', 1, 'true', true].includes(value));
+    } else {
+      query.eq(field, value);
+    }
+    return;
+  }
+
+  const filteredField: string = matches[1];
+  const operator: string = matches[2];
+
+  if (!filterSortFields[filteredField]) {
+    throw new Error(`${filteredField} is not a field you can filter on.`);
+  }
+
+  switch (operator) {
+    case QueryOperatorEnum.EQUALS: {
+      query.eq(filteredField, value);
+      break;
+    }
+    case QueryOperatorEnum.GREATER_THAN: {
+      query.gt(filteredField, value);
+      break;
+    }
+    case QueryOperatorEnum.GREATER_THAN_EQUALS: {
+      query.gte(filteredField, value);
+      break;
+    }
+    case QueryOperatorEnum.LESS_THAN: {
+      query.lt(filteredField, value);
+      break;
+    }
+    case QueryOperatorEnum.LESS_THAN_EQUALS: {
+      query.lte(filteredField, value);
+      break;
+    }
+
+    // We don't use the enum for in and like, as they are different in the HTTP api than for the Query.
+    case 'in': {
+      query.in(filteredField, value.split(','));
+      break;
+    }
+    case '~': {
+      query.like(filteredField, value);
+      break;
+    }
+    case 'has': {
+      const items = value.split(',');
+      if (items.length === 1) {
+        query.contains(filteredField, value);
+      } else {
+        query.containsAny(filteredField, items);
+      }
+      break;
+    }
+    default:
+      throw new Error(
+        `Unrecognized operator ${operator} for filteredField ${filteredField}.`
+      );
+  }
+}
+
 function filter(
   collection: ManagedCollection,
   query: Query,
@@ -36,66 +116,50 @@ function filter(
     );
   }
 
-  const filterSortFields: Record<string, FilterSortField> =
-    collection.filterSortFields;
   Object.entries(filters).forEach(([field, value]: [string, string]) => {
-    const matches: string[] | null = (field || '').match(/(.*)\[(.*)\]$/);
-    if (matches === null || matches.length !== 3) {
-      if (
-        collection.filterSortFields &&
-        collection.filterSortFields[field] === 'boolean'
-      ) {
-        query.eq(field, ['1', 1, 'true', true].includes(value));
-      } else {
-        query.eq(field, value);
-      }
-      return;
-    }
-
-    const filteredField: string = matches[1];
-    const operator: string = matches[2];
+    addFilter(collection, query, field, value);
+  });
+}
 
-    if (!filterSortFields[filteredField]) {
-      throw new Error(`${filteredField} is not a field you can filter on.`);
-    }
+function applyFilterExpression(
+  collection: ManagedCollection,
+  query: Query,
+  expression: FilterExpression
+): void {
+  if (expression.type === 'group') {
+    query[expression.operator]((groupQuery: Query) => {
+      expression.expressions.forEach((groupExpression) => {
+        applyFilterExpression(collection, groupQuery, groupExpression);
+      });
+    });
+    return;
+  }
 
-    switch (operator) {
-      case QueryOperatorEnum.EQUALS: {
-        query.eq(filteredField, value);
-        break;
-      }
-      case QueryOperatorEnum.GREATER_THAN: {
-        query.gt(filteredField, value);
-        break;
-      }
-      case QueryOperatorEnum.GREATER_THAN_EQUALS: {
-        query.gte(filteredField, value);
-        break;
-      }
-      case QueryOperatorEnum.LESS_THAN: {
-        query.lt(filteredField, value);
-        break;
-      }
-      case QueryOperatorEnum.LESS_THAN_EQUALS: {
-        query.lte(filteredField, value);
-        break;
-      }
+  try {
+    addFilter(collection, query, expression.field, expression.value);
+  } catch (error) {
+    throw new FilterExpressionError(
+      (error as Error).message,
+      expression.position
+    );
+  }
+}
 
-      // We don't use the enum for in and like, as they are different in the HTTP api than for the Query.
-      case 'in': {
-        query.in(filteredField, value.split(','));
-        break;
-      }
-      case '~': {
-        query.like(filteredField, value);
-        break;
-      }
-      default:
-        throw new Error(
-          `Unrecognized operator ${operator} for filteredField ${filteredField}.`
-        );
+function filterExpressions(
+  collection: ManagedCollection,
+  query: Query,
+  expressions: string | string[]
+): void {
+  // Multiple filter expressions are combined using AND, just like the other filters.
+  (Array.isArray(expressions) ? expressions : [expressions]).forEach(
+    (expression: string) => {
+      applyFilterExpression(
+        collection,
+        query,
+        parseFilterExpression(expression)
+      );
     }
-  });
+  );
 }
 
 function limitOffset(query: Query, params: Record<string, string>): void {
@@ -144,6 +208,15 @@ export default (collection: ManagedCollection) =>
       }
     }
 
+    if (
+      queryParams.withDeleted === 'true' &&
+      !(await allowsWithDeleted(collection, httpContext))
+    ) {
+      throw ctx.error('FORBIDDEN', {
+        message: 'Including the deleted items is not allowed.',
+      });
+    }
+
     const query: Query = collection.repository.createQuery();
     if (queryParams.sort) {
       try {
@@ -156,7 +229,16 @@ export default (collection: ManagedCollection) =>
     const filters: Record<string, string> = {};
 
     Object.entries(queryParams).forEach(([field, value]: [string, string]) => {
-      if (field === 'sort' || field === 'limit' || field === 'offset') {
+      if (
+        field === 'sort' ||
+        field === 'limit' ||
+        field === 'offset' ||
+        field === 'cursor' ||
+        field === 'filter' ||
+        field === 'q' ||
+        field === 'expand' ||
+        field === 'withDeleted'
+      ) {
         return;
       }
       filters[field] = value;
@@ -164,13 +246,42 @@ export default (collection: ManagedCollection) =>
 
     try {
       filter(collection, query, filters);
+      if (queryParams.filter) {
+        filterExpressions(collection, query, queryParams.filter);
+      }
+      if (queryParams.q) {
+        query.search(queryParams.q);
+      }
+      if (queryParams.withDeleted === 'true') {
+        query.withDeleted();
+      }
     } catch (error) {
       throw ctx.error('BAD_REQUEST', { message: (error as Error).message });
     }
 
+    if (queryParams.cursor) {
+      try {
+        query.after(queryParams.cursor);
+      } catch (error) {
+        throw ctx.error('BAD_REQUEST', { message: (error as Error).message });
+      }
+    }
+
     try {
       limitOffset(query, queryParams);
-      let items = await collection.repository.getByQuery(query);
+      let [items, total] = await Promise.all([
+        collection.repository.getByQuery(query, getExpandOptions(queryParams)),
+        collection.repository.count(query),
+      ]);
+
+      // A cursor can only be provided when the results have a deterministic order.
+      const limit = query.getLimit();
+      const nextCursor =
+        typeof limit !== 'undefined' &&
+        items.length === limit &&
+        (query.getSort().length > 0 || query.getAfter())
+          ? collection.repository.createCursor(query, items[items.length - 1])
+          : null;
 
       // transform hook
       try {
@@ -198,8 +309,10 @@ export default (collection: ManagedCollection) =>
         meta: {
           sort: query.getSort(),
           limit: query.getLimit(),
-          filters: query.getWhere(),
-          offset: query.getOffset(),
+          filters: query.getFilters(),
+          offset: query.getAfter() ? undefined : query.getOffset(),
+          total,
+          nextCursor,
         },
       };
     } catch (error) {
@@ -2,7 +2,16 @@ import create from './create.js';
 import deleteById from './delete-by-id.js';
 import get from './get.js';
 import getById from './get-by-id.js';
+import getHistoryById from './get-history-by-id.js';
 import overview from './overview.js';
 import updateById from './update-by-id.js';
 
-export { overview, get, create, updateById, getById, deleteById };
+export {
+  overview,
+  get,
+  create,
+  updateById,
+  getById,
+  deleteById,
+  getHistoryById,
+};
@@ -1,7 +1,15 @@
 import type { Debugger } from 'debug';
 import Debug from 'debug';
+import {
+  ConflictError,
+  UniqueConstraintError,
+  ValidationError,
+} from '../../../database/error/index.js';
 import type { HttpContext, ManagedCollection } from '../../types.js';
+import getActor from './utils/actor.js';
+import { checkIfMatch, setEntityTag } from './utils/etag.js';
 import transform from './utils/index.js';
+import withoutManagedFields from './utils/managed-fields.js';
 
 const debug: Debugger = Debug('supersave:http:updateById');
 
@@ -24,6 +32,9 @@ export default (collection: ManagedCollection) =>
       if (item === null) {
         throw ctx.error('NOT_FOUND', { message: 'Not Found' });
       }
+      if (collection.versioning) {
+        checkIfMatch(ctx, item);
+      }
 
       debug('Incoming update request', body);
       collection.relations.forEach((relation) => {
@@ -52,9 +63,11 @@ export default (collection: ManagedCollection) =>
         }
       });
 
+      // The managed fields of the stored item are kept, the update is conditional on the version that matched the
+      // If-Match header.
       let updatedEntity = {
         ...(item as Record<string, unknown>),
-        ...body,
+        ...withoutManagedFields(collection, body),
       };
       debug('Updating entity.', updatedEntity);
 
@@ -86,8 +99,12 @@ export default (collection: ManagedCollection) =>
         }
       }
       updatedResult = await collection.repository.update(
-        updatedEntity as Parameters<typeof collection.repository.update>[0]
+        updatedEntity as Parameters<typeof collection.repository.update>[0],
+        { actor: await getActor(collection, httpContext) }
       );
+      if (collection.versioning) {
+        setEntityTag(ctx, updatedResult);
+      }
 
       // transform hook
       try {
@@ -114,6 +131,18 @@ export default (collection: ManagedCollection) =>
       if ((error as { status?: unknown })?.status) {
         throw error; // Re-throw API errors
       }
+      if (error instanceof UniqueConstraintError) {
+        throw ctx.error('CONFLICT', { message: error.message });
+      }
+      if (error instanceof ConflictError) {
+        throw ctx.error('PRECONDITION_FAILED', { message: error.message });
+      }
+      if (error instanceof ValidationError) {
+        throw ctx.error('UNPROCESSABLE_ENTITY', {
+          message: error.message,
+          issues: error.issues,
+        });
+      }
       throw ctx.error('INTERNAL_SERVER_ERROR', {
         message: (error as Error).message,
       });
@@ -0,0 +1,19 @@
+import type { Collection, HttpContext } from '../../../types.js';
+
+/**
+ * Returns the id of who makes the request, as recorded in the history, using the first `actor` hook that returns one.
+ */
+export default async function getActor(
+  collection: Collection,
+  ctx: HttpContext
+): Promise<string | undefined> {
+  for (const hooks of collection.hooks || []) {
+    if (hooks.actor) {
+      const actor = await hooks.actor(collection, ctx);
+      if (typeof actor !== 'undefined') {
+        return actor;
+      }
+    }
+  }
+  return undefined;
+}
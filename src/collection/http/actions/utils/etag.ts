@@ -0,0 +1,47 @@
+import { VERSION_FIELD } from '../../../../database/entity-manager/utils.js';
+
+/**
+ * Returns the entity tag of an item of a collection with versioning, its version as a strong tag like `"3"`.
+ */
+export function getEntityTag(item: unknown): string | null {
+  const version = (item as Record<string, unknown> | null)?.[VERSION_FIELD];
+  return typeof version === 'number' ? `"${version}"` : null;
+}
+
+/**
+ * Checks the If-Match header of a write to an item of a collection with versioning. The header is required and must
+ * contain the entity tag of the stored item, or `*` when the item exists.
+ */
+export function checkIfMatch(ctx: any, item: unknown): void {
+  const ifMatch = ctx.getHeader?.('if-match') as string | null | undefined;
+  if (!ifMatch) {
+    throw ctx.error('PRECONDITION_REQUIRED', {
+      message: 'The If-Match header is required.',
+    });
+  }
+
+  const entityTag = getEntityTag(item);
+  const matches = ifMatch
+    .split(',')
+    .map((tag: string) => tag.trim())
+    .some(
+      (tag: string) =>
+        item !== null &&
+        (tag === '*' || (entityTag !== null && tag === entityTag))
+    );
+  if (!matches) {
+    throw ctx.error('PRECONDITION_FAILED', {
+      message: 'The item was changed since it was read.',
+    });
+  }
+}
+
+/**
+ * Sets the ETag header of the response to the entity tag of the item.
+ */
+export function setEntityTag(ctx: any, item: unknown): void {
+  const entityTag = getEntityTag(item);
+  if (entityTag !== null) {
+    ctx.setHeader?.('ETag', entityTag);
+  }
+}
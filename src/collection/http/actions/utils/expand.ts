@@ -0,0 +1,19 @@
+import type { ExpandOptions } from '../../../../database/types.js';
+
+/**
+ * Reads the relations to expand from the `expand` query parameter, a comma separated list of relation paths like
+ * `planet,planet.star`. An empty value expands no relations, without the parameter all relations are expanded.
+ */
+export default function getExpandOptions(
+  params: Record<string, string>
+): ExpandOptions {
+  if (typeof params.expand === 'undefined') {
+    return {};
+  }
+  return {
+    expand: params.expand
+      .split(',')
+      .map((path: string) => path.trim())
+      .filter((path: string) => path !== ''),
+  };
+}
@@ -0,0 +1,162 @@
+export type FilterExpression =
+  | {
+      type: 'group';
+      operator: 'and' | 'or' | 'not';
+      expressions: FilterExpression[];
+      position: number;
+    }
+  | {
+      type: 'comparison';
+      field: string;
+      value: string;
+      position: number;
+    };
+
+export class FilterExpressionError extends Error {
+  constructor(
+    m: string,
+    public position: number
+  ) {
+    super(`Invalid filter expression at position ${position}: ${m}`);
+
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, FilterExpressionError.prototype);
+  }
+}
+
+const GROUP_OPERATORS = ['and', 'or', 'not'];
+const FIELD_CHARACTER = /[A-Za-z0-9_.-]/;
+
+/**
+ * Parses a filter expression as used in the `filter` query parameter, for example
+ * `or(status=draft,and(owner=me,priority[>]=2))`. A comparison uses the same syntax as the
+ * filter query parameters. Values containing `,`, `(` or `)` can be wrapped in double quotes,
+ * a double quote within a quoted value is escaped using a backslash.
+ */
+export function parseFilterExpression(expression: string): FilterExpression {
+  let position = 0;
+
+  const skipWhitespace = (): void => {
+    while (position < expression.length && /\s/.test(expression[position])) {
+      position += 1;
+    }
+  };
+
+  const describeCurrent = (): string =>
+    position < expression.length
+      ? `"${expression[position]}"`
+      : 'the end of the expression';
+
+  const expect = (character: string): void => {
+    skipWhitespace();
+    if (expression[position] !== character) {
+      throw new FilterExpressionError(
+        `expected "${character}" but found ${describeCurrent()}.`,
+        position
+      );
+    }
+    position += 1;
+  };
+
+  const parseValue = (): string => {
+    skipWhitespace();
+    if (expression[position] === '"') {
+      const start = position;
+      position += 1;
+      let value = '';
+      while (position < expression.length && expression[position] !== '"') {
+        if (expression[position] === '\\' && position + 1 < expression.length) {
+          position += 1;
+        }
+        value += expression[position];
+        position += 1;
+      }
+      if (position >= expression.length) {
+        throw new FilterExpressionError('unterminated quoted value.', start);
+      }
+      position += 1;
+      return value;
+    }
+
+    const start = position;
+    while (
+      position < expression.length &&
+      !['(', ')', ',', '"'].includes(expression[position])
+    ) {
+      position += 1;
+    }
+    return expression.substring(start, position).trim();
+  };
+
+  const parseExpression = (): FilterExpression => {
+    skipWhitespace();
+    const start = position;
+    while (
+      position < expression.length &&
+      FIELD_CHARACTER.test(expression[position])
+    ) {
+      position += 1;
+    }
+    const name = expression.substring(start, position);
+    if (name === '') {
+      throw new FilterExpressionError(
+        `expected a field or group but found ${describeCurrent()}.`,
+        position
+      );
+    }
+
+    skipWhitespace();
+    if (expression[position] === '(') {
+      const operator = name.toLowerCase();
+      if (!GROUP_OPERATORS.includes(operator)) {
+        throw new FilterExpressionError(
+          `unknown group "${name}", use one of ${GROUP_OPERATORS.join(', ')}.`,
+          start
+        );
+      }
+      position += 1;
+
+      const expressions: FilterExpression[] = [parseExpression()];
+      skipWhitespace();
+      while (expression[position] === ',') {
+        position += 1;
+        expressions.push(parseExpression());
+        skipWhitespace();
+      }
+      expect(')');
+
+      return {
+        type: 'group',
+        operator: operator as 'and' | 'or' | 'not',
+        expressions,
+        position: start,
+      };
+    }
+
+    let field = name;
+    if (expression[position] === '[') {
+      const closing = expression.indexOf(']', position);
+      if (closing === -1) {
+        throw new FilterExpressionError(
+          'unterminated operator, expected "]".',
+          position
+        );
+      }
+      field = `${name}${expression.substring(position, closing + 1)}`;
+      position = closing + 1;
+    }
+    expect('=');
+
+    return { type: 'comparison', field, value: parseValue(), position: start };
+  };
+
+  const result = parseExpression();
+  skipWhitespace();
+  if (position < expression.length) {
+    throw new FilterExpressionError(
+      `unexpected ${describeCurrent()}.`,
+      position
+    );
+  }
+  return result;
+}
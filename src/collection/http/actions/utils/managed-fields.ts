@@ -0,0 +1,18 @@
+import { getManagedFields } from '../../../../database/entity-manager/utils.js';
+import type { Collection } from '../../../types.js';
+
+/**
+ * Returns the body of a request without the fields that are set by supersave, like `createdAt` or `version`. They
+ * cannot be set using the HTTP API, the stored values are kept on an update.
+ */
+export default function withoutManagedFields(
+  collection: Collection,
+  body: Record<string, unknown>
+): Record<string, unknown> {
+  const managedFields = Object.keys(getManagedFields(collection));
+  return Object.fromEntries(
+    Object.entries(body).filter(
+      ([field]: [string, unknown]) => !managedFields.includes(field)
+    )
+  );
+}
@@ -0,0 +1,17 @@
+import type { Collection, HttpContext } from '../../../types.js';
+
+/**
+ * Returns if the request may include the soft deleted items, which is only allowed when a `withDeleted` hook returns
+ * true.
+ */
+export default async function allowsWithDeleted(
+  collection: Collection,
+  ctx: HttpContext
+): Promise<boolean> {
+  for (const hooks of collection.hooks || []) {
+    if (hooks.withDeleted && (await hooks.withDeleted(collection, ctx))) {
+      return true;
+    }
+  }
+  return false;
+}
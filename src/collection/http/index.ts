@@ -87,6 +87,15 @@ class Http {
         { method: 'DELETE' },
         actions.deleteById(collection)
       );
+
+      // GET /collection/:id/history - get the history of an item by id
+      if (collection.history) {
+        endpoints[`${baseKey}_getHistoryById`] = createEndpoint(
+          `${path}/:id/history`,
+          { method: 'GET' },
+          actions.getHistoryById(collection)
+        );
+      }
     });
 
     this.router = createRouter(endpoints);
@@ -1,5 +1,10 @@
 import type { Repository } from '../database/entity-manager/index.js';
-import type { FilterSortField, Relation } from '../database/types.js';
+import type {
+  EntitySchema,
+  FilterSortField,
+  InverseRelation,
+  Relation,
+} from '../database/types.js';
 
 export type HttpContext = {
   params: Record<string, string>;
@@ -24,7 +29,15 @@ export type Collection = {
 
   template: unknown;
   relations: Relation[];
+  inverseRelations?: InverseRelation[];
   filterSortFields?: Record<string, FilterSortField>;
+  searchFields?: string[];
+  uniqueFields?: (string | string[])[];
+  schema?: EntitySchema;
+  softDelete?: boolean;
+  timestamps?: boolean;
+  versioning?: boolean;
+  history?: boolean;
 
   additionalProperties?: Record<string, unknown>;
   hooks?: Hooks[];
@@ -61,4 +74,12 @@ export type Hooks = {
     ctx: HttpContext,
     item: T | null
   ) => Promise<void> | void;
+  actor?: (
+    collection: Collection,
+    ctx: HttpContext
+  ) => Promise<string | undefined> | string | undefined;
+  withDeleted?: (
+    collection: Collection,
+    ctx: HttpContext
+  ) => Promise<boolean> | boolean;
 };
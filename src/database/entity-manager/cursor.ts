@@ -0,0 +1,26 @@
+import type { QueryCursor } from '../types.js';
+
+export function encodeCursor(cursor: QueryCursor): string {
+  return Buffer.from(JSON.stringify([cursor.values, cursor.id])).toString(
+    'base64url'
+  );
+}
+
+export function decodeCursor(cursor: string): QueryCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (_error) {
+    throw new TypeError(`Invalid cursor ${cursor}.`);
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 2 ||
+    !Array.isArray(decoded[0]) ||
+    typeof decoded[1] !== 'string'
+  ) {
+    throw new TypeError(`Invalid cursor ${cursor}.`);
+  }
+  return { values: decoded[0], id: decoded[1] };
+}
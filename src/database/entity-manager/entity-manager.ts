@@ -8,20 +8,39 @@ export type AddEntityOptions = {
   skipSync?: boolean;
 };
 
+export interface Transaction {
+  getRepository<T extends BaseEntity>(
+    name: string,
+    namespace?: string
+  ): Repository<T>;
+  transaction<R>(
+    callback: (transaction: Transaction) => Promise<R>
+  ): Promise<R>;
+}
+
 abstract class EntityManager {
   protected repositories = new Map<string, Repository<any>>();
 
+  protected definitions = new Map<string, EntityDefinition>();
+
   public abstract addEntity<T extends BaseEntity>(
     entity: EntityDefinition,
     options?: AddEntityOptions
   ): Promise<Repository<T>>;
 
-  public abstract getEngineType(): 'mysql' | 'sqlite';
+  public abstract getEngineType(): 'mysql' | 'sqlite' | 'postgres' | 'memory';
 
   protected getFullEntityName(name: string, namespace?: string): string {
     return typeof namespace !== 'undefined' ? `${namespace}_${name}` : name;
   }
 
+  /**
+   * Returns the definitions of all added entities, used to find the relations referring to an entity.
+   */
+  protected getDefinitions(): EntityDefinition[] {
+    return [...this.definitions.values()];
+  }
+
   public getRepository<T extends BaseEntity>(
     name: string,
     namespace?: string
@@ -36,6 +55,14 @@ abstract class EntityManager {
     return repository as Repository<T>;
   }
 
+  /**
+   * Runs the callback within a transaction. The repositories retrieved from the provided
+   * transaction are bound to it. When the callback throws, all changes are rolled back.
+   */
+  public abstract transaction<R>(
+    callback: (transaction: Transaction) => Promise<R>
+  ): Promise<R>;
+
   protected abstract createTable(tableName: string): Promise<void>;
 
   public abstract close(): Promise<void>;
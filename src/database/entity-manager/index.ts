@@ -1,19 +1,25 @@
 import type { Debugger } from 'debug';
 import Debug from 'debug';
-import EntityManager from './entity-manager.js';
+import EntityManager, { type Transaction } from './entity-manager.js';
 import type { MysqlOptions } from './mysql/connection.js';
+import type { PostgresOptions } from './postgres/connection.js';
 import Query from './query.js';
 import Repository from './repository.js';
+import type { SqliteDriver } from './sqlite/connection.js';
 
 const debug: Debugger = Debug('supersave:db:em');
 
 export { Repository, Query, EntityManager };
+export type { Transaction };
 
 export const MYSQL = 'mysql';
 export const SQLITE = 'sqlite';
+export const POSTGRES = 'postgres';
+export const MEMORY = 'memory';
 
 type SqliteOptions = {
   file: string;
+  driver?: SqliteDriver;
 };
 
 // Helper to extract default export from dynamic import (handles both ESM and CJS interop)
@@ -33,12 +39,16 @@ function getDefaultExport<T>(
 }
 
 export default async (
-  type: typeof MYSQL | typeof SQLITE,
-  options: SqliteOptions | MysqlOptions
+  type: typeof MYSQL | typeof SQLITE | typeof POSTGRES | typeof MEMORY,
+  options?: SqliteOptions | MysqlOptions | PostgresOptions
 ): Promise<EntityManager> => {
   if (type === 'sqlite') {
     const sqliteModule = await import('./sqlite/index.js');
-    const connectionModule = await import('./sqlite/connection.js');
+    // node:sqlite is only imported when it is used, it is not available before Node 22.5.
+    const connectionModule =
+      (options as SqliteOptions).driver === 'node'
+        ? await import('./sqlite/node-connection.js')
+        : await import('./sqlite/connection.js');
     type SqliteConnection = Awaited<
       ReturnType<typeof import('./sqlite/connection.js')['default']>
     >;
@@ -68,6 +78,37 @@ export default async (
     const conn = await createPool((options as MysqlOptions).connection);
     return new Mysql(conn);
   }
+  if (type === 'postgres') {
+    const postgresModule = await import('./postgres/index.js');
+    const connectionModule = await import('./postgres/connection.js');
+    type PostgresConnection = Awaited<
+      ReturnType<typeof import('./postgres/connection.js')['default']>
+    >;
+    const Postgres = getDefaultExport(postgresModule) as unknown as new (
+      pool: PostgresConnection
+    ) => EntityManager;
+    const createPool = getDefaultExport(connectionModule) as unknown as (
+      conn: string
+    ) => Promise<PostgresConnection>;
+    debug('Setting up connection for postgres.');
+    const conn = await createPool((options as PostgresOptions).connection);
+    return new Postgres(conn);
+  }
+  if (type === 'memory') {
+    const memoryModule = await import('./memory/index.js');
+    const connectionModule = await import('./memory/connection.js');
+    type MemoryConnection = ReturnType<
+      typeof import('./memory/connection.js')['default']
+    >;
+    const Memory = getDefaultExport(memoryModule) as unknown as new (
+      conn: MemoryConnection
+    ) => EntityManager;
+    const createConnection = getDefaultExport(
+      connectionModule
+    ) as unknown as () => MemoryConnection;
+    debug('Setting up in-memory database.');
+    return new Memory(createConnection());
+  }
 
   throw new Error(`Unrecognized db type ${type}.`);
 };
@@ -0,0 +1,35 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+type Queue = { tail: Promise<void> };
+
+/**
+ * Runs callbacks one at a time, in the order they were started. Used by the engines that share a single connection,
+ * so a transaction is not affected by the writes that are made outside of it, and the other way around.
+ */
+class Lock {
+  private readonly holder = new AsyncLocalStorage<Queue>();
+
+  private readonly queue: Queue = { tail: Promise.resolve() };
+
+  /**
+   * Runs the callback once the callbacks that were started before it are done. A callback that is started from within
+   * a running callback is part of it, so it only waits for the other callbacks started from within the same callback.
+   * This keeps the savepoints of callbacks that are started at the same time from overlapping.
+   */
+  public async run<R>(callback: () => Promise<R>): Promise<R> {
+    const queue = this.holder.getStore() ?? this.queue;
+    const previous = queue.tail;
+    let release: () => void = () => {};
+    queue.tail = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    try {
+      return await this.holder.run({ tail: Promise.resolve() }, callback);
+    } finally {
+      release();
+    }
+  }
+}
+
+export default Lock;
@@ -0,0 +1,14 @@
+/**
+ * The tables of the in-memory engine, each containing the JSON contents of the rows by their id.
+ */
+export type MemoryDatabase = Map<string, Map<string, string>>;
+
+/**
+ * The changes to an entity with history are stored in a table of their own, containing the JSON of the history rows
+ * by their sequence number.
+ */
+export function getHistoryTableName(tableName: string): string {
+  return `${tableName}_history`;
+}
+
+export default (): MemoryDatabase => new Map();
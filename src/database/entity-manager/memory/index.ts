@@ -0,0 +1,111 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import slug from 'slug';
+import type { BaseEntity, EntityDefinition } from '../../types.js';
+import EntityManager, {
+  type AddEntityOptions,
+  type Transaction,
+} from '../entity-manager.js';
+import Lock from '../lock.js';
+import type BaseRepository from '../repository.js';
+import { getManagedFields, validateUniqueFields } from '../utils.js';
+import { getHistoryTableName, type MemoryDatabase } from './connection.js';
+import Repository from './repository.js';
+import { withSnapshot } from './utils.js';
+
+const debug: Debugger = Debug('supersave:db:em:memory');
+
+class MemoryEntityManager extends EntityManager {
+  private readonly lock = new Lock();
+
+  constructor(private readonly connection: MemoryDatabase) {
+    super();
+  }
+
+  public addEntity<T extends BaseEntity>(
+    entity: EntityDefinition,
+    options: AddEntityOptions = {}
+  ): Promise<BaseRepository<T>> {
+    const { filterSortFields = {} } = entity;
+    filterSortFields.id = 'string';
+    Object.assign(filterSortFields, getManagedFields(entity));
+
+    const updatedEntity: EntityDefinition = {
+      ...entity,
+      filterSortFields,
+    };
+
+    const fullEntityName = this.getFullEntityName(
+      entity.name,
+      entity.namespace
+    );
+    const tableName = slug(fullEntityName).replace(/-/g, '_'); // use the same table names as the other engines.
+    this.createTable(tableName);
+    if (entity.history) {
+      this.createTable(getHistoryTableName(tableName));
+    }
+
+    const repository: Repository<T> = new Repository(
+      updatedEntity,
+      tableName,
+      (name: string, namespace?: string) => this.getRepository(name, namespace),
+      () => this.getDefinitions(),
+      this.connection,
+      this.lock
+    );
+
+    if (!options.skipSync) {
+      // There are no columns or indexes to create, only the definition is checked.
+      try {
+        validateUniqueFields(updatedEntity);
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    this.repositories.set(fullEntityName, repository);
+    this.definitions.set(fullEntityName, updatedEntity);
+    return Promise.resolve(this.getRepository(entity.name, entity.namespace));
+  }
+
+  public getEngineType(): 'mysql' | 'sqlite' | 'postgres' | 'memory' {
+    return 'memory';
+  }
+
+  /**
+   * The tables are copied at the start of the transaction and restored when it fails. Other transactions and the
+   * writes made outside of the transaction wait until it is done, so restoring the copy only reverts its own changes.
+   */
+  public transaction<R>(
+    callback: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    return this.lock.run(() =>
+      withSnapshot(this.connection, () =>
+        callback({
+          getRepository: (name: string, namespace?: string) =>
+            this.getRepository(name, namespace),
+          transaction: (nestedCallback) => this.transaction(nestedCallback),
+        })
+      )
+    );
+  }
+
+  protected createTable(tableName: string): Promise<void> {
+    if (!this.connection.has(tableName)) {
+      debug(`Creating table ${tableName}.`);
+      this.connection.set(tableName, new Map());
+    }
+    return Promise.resolve();
+  }
+
+  public close(): Promise<void> {
+    this.connection.clear();
+    return Promise.resolve();
+  }
+
+  public getConnection(): MemoryDatabase {
+    return this.connection;
+  }
+}
+
+export default MemoryEntityManager;
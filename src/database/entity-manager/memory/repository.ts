@@ -0,0 +1,652 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import shortUuid from 'short-uuid';
+
+const { generate } = shortUuid;
+
+import type {
+  BaseEntity,
+  EntityDefinition,
+  EntityRow,
+  ExpandOptions,
+  HistoryRow,
+  QueryCondition,
+  QueryCursor,
+  QuerySort,
+  Relation,
+  WriteOptions,
+} from '../../types.js';
+import { QueryOperatorEnum } from '../../types.js';
+import type Lock from '../lock.js';
+import type Query from '../query.js';
+import BaseRepository from '../repository.js';
+import {
+  DELETED_AT_FIELD,
+  getFieldValue,
+  getUniqueFieldGroups,
+  normalizeDateValue,
+  VERSION_FIELD,
+} from '../utils.js';
+import { getHistoryTableName, type MemoryDatabase } from './connection.js';
+import { withSnapshot } from './utils.js';
+
+const debug: Debugger = Debug('supersave:db:memory:repo');
+
+type ColumnValue = string | number | null;
+
+// A comparison with NULL is unknown, like in SQL. A row only matches when its conditions are true.
+type Match = boolean | null;
+
+/**
+ * Splits text into lowercase words, like the tokenizer of a full-text index.
+ */
+function getWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word: string) => word !== '');
+}
+
+class Repository<T extends BaseEntity> extends BaseRepository<T> {
+  constructor(
+    protected readonly definition: EntityDefinition,
+    protected readonly tableName: string,
+    protected readonly getRepository: (
+      name: string,
+      namespace?: string
+    ) => BaseRepository<any>,
+    protected readonly getDefinitions: () => EntityDefinition[],
+    protected readonly connection: MemoryDatabase,
+    protected readonly lock: Lock
+  ) {
+    super(definition, tableName, getRepository, getDefinitions);
+  }
+
+  protected runInTransaction<R>(
+    callback: (repository: this) => Promise<R>
+  ): Promise<R> {
+    return this.lock.run(() =>
+      withSnapshot(this.connection, () => callback(this))
+    );
+  }
+
+  /**
+   * Returns the rows of the table. It is retrieved for every operation, as a rolled back transaction replaces it.
+   */
+  protected getTable(): Map<string, string> {
+    const table = this.connection.get(this.tableName);
+    if (typeof table === 'undefined') {
+      throw new Error(`Table ${this.tableName} does not exist.`);
+    }
+    return table;
+  }
+
+  protected getRows(): EntityRow[] {
+    return [...this.getTable().entries()].map(([id, contents]) => ({
+      id,
+      contents,
+    }));
+  }
+
+  protected queryRowsByIds(ids: string[]): Promise<EntityRow[]> {
+    const table = this.getTable();
+    const rows = ids
+      .filter((id: string) => table.has(id))
+      .map((id: string) => ({ id, contents: table.get(id) as string }));
+    return Promise.resolve(rows);
+  }
+
+  /**
+   * Returns the value of a filterSortField as it is stored in the generated column by the other engines.
+   */
+  protected getColumnValue(row: EntityRow, field: string): ColumnValue {
+    if (field === 'id') {
+      return row.id;
+    }
+
+    const value = getFieldValue(JSON.parse(row.contents), field);
+    if (value === null || typeof value === 'undefined') {
+      return null;
+    }
+    // multiple relations are stored comma-separated in their column
+    if (Array.isArray(value) && this.relationsMap.get(field)?.multiple) {
+      return value.join(',');
+    }
+
+    const type = this.definition.filterSortFields?.[field];
+    if (type === 'number' || type === 'float') {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        return null;
+      }
+      return type === 'number' ? Math.trunc(number) : number;
+    }
+    if (type === 'boolean') {
+      return this.getBooleanValue(value);
+    }
+    if (type === 'date' || type === 'datetime') {
+      try {
+        return normalizeDateValue(value, type);
+      } catch {
+        // An invalid date is stored as NULL in its column.
+        return null;
+      }
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  protected getBooleanValue(value: unknown): number {
+    return ['1', 1, 'true', true].includes(value as string) ? 1 : 0;
+  }
+
+  /**
+   * Converts the value of a filter to the type of the column of the field.
+   */
+  protected getFilterValue(field: string, value: unknown): ColumnValue {
+    if (value === null || typeof value === 'undefined') {
+      return null;
+    }
+    const type = this.definition.filterSortFields?.[field];
+    if (type === 'number' || type === 'float') {
+      return Number(value);
+    }
+    if (type === 'boolean') {
+      return this.getBooleanValue(value);
+    }
+    return String(value);
+  }
+
+  /**
+   * Compares two values of a column, NULL values are ordered first.
+   */
+  protected compareValues(
+    value1: ColumnValue,
+    value2: ColumnValue,
+    caseInsensitive = false
+  ): number {
+    if (value1 === null || value2 === null) {
+      return value1 === value2 ? 0 : value1 === null ? -1 : 1;
+    }
+    if (typeof value1 === 'number' && typeof value2 === 'number') {
+      return value1 - value2;
+    }
+    const text1 = caseInsensitive ? String(value1).toLowerCase() : `${value1}`;
+    const text2 = caseInsensitive ? String(value2).toLowerCase() : `${value2}`;
+    return text1 < text2 ? -1 : text1 > text2 ? 1 : 0;
+  }
+
+  /**
+   * Checks if the row matches a single filter or a group of filters, using the three-valued logic of SQL. Negating an
+   * unknown result keeps it unknown, so `NOT (status = 'draft')` does not match a row without a status.
+   */
+  protected matchesCondition(row: EntityRow, condition: QueryCondition): Match {
+    if ('filters' in condition) {
+      const matches = condition.filters.map((filter: QueryCondition) =>
+        this.matchesCondition(row, filter)
+      );
+      if (matches.length === 0) {
+        return true;
+      }
+      if (condition.operator === 'OR') {
+        return matches.includes(true)
+          ? true
+          : matches.includes(null)
+            ? null
+            : false;
+      }
+      const all = matches.includes(false)
+        ? false
+        : matches.includes(null)
+          ? null
+          : true;
+      if (condition.operator === 'NOT') {
+        return all === null ? null : !all;
+      }
+      return all;
+    }
+
+    const { operator, field, value } = condition;
+    if (
+      operator === QueryOperatorEnum.CONTAINS ||
+      operator === QueryOperatorEnum.CONTAINS_ANY
+    ) {
+      // The items are read from the contents, which also works for relations that are stored comma-separated in their column.
+      const items: unknown[] =
+        operator === QueryOperatorEnum.CONTAINS ? [value] : value;
+      const array = getFieldValue(JSON.parse(row.contents), field);
+      return (
+        Array.isArray(array) &&
+        items.some((item: unknown) =>
+          array.some((element: unknown) => String(element) === String(item))
+        )
+      );
+    }
+
+    const columnValue = this.getColumnValue(row, field);
+    if (operator === QueryOperatorEnum.EQUALS && value === null) {
+      return columnValue === null;
+    }
+    if (columnValue === null) {
+      // A comparison with NULL is unknown.
+      return null;
+    }
+    if (operator === QueryOperatorEnum.IN) {
+      return value.some(
+        (item: unknown) =>
+          this.compareValues(columnValue, this.getFilterValue(field, item)) ===
+          0
+      );
+    }
+    if (operator === QueryOperatorEnum.LIKE) {
+      const pattern = `${value}`
+        .replace(/\*/g, '%')
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/%/g, '.*')
+        .replace(/_/g, '.');
+      return new RegExp(`^${pattern}$`, 'is').test(String(columnValue));
+    }
+
+    const filterValue = this.getFilterValue(field, value);
+    if (filterValue === null) {
+      return null;
+    }
+    const comparison = this.compareValues(columnValue, filterValue);
+    switch (operator) {
+      case QueryOperatorEnum.GREATER_THAN:
+        return comparison > 0;
+      case QueryOperatorEnum.GREATER_THAN_EQUALS:
+        return comparison >= 0;
+      case QueryOperatorEnum.LESS_THAN:
+        return comparison < 0;
+      case QueryOperatorEnum.LESS_THAN_EQUALS:
+        return comparison <= 0;
+      default:
+        return comparison === 0;
+    }
+  }
+
+  /**
+   * Returns how often the words of the search term occur in the search fields of the row, or 0 when the row does
+   * not contain all words.
+   */
+  protected getSearchRank(row: EntityRow, search: string): number {
+    const contents = JSON.parse(row.contents);
+    const words = (this.definition.searchFields ?? []).flatMap(
+      (field: string) => {
+        const value = getFieldValue(contents, field);
+        return value === null || typeof value === 'undefined'
+          ? []
+          : getWords(String(value));
+      }
+    );
+
+    let rank = 0;
+    for (const searchWord of getWords(search)) {
+      const count = words.filter((word: string) => word === searchWord).length;
+      if (count === 0) {
+        return 0;
+      }
+      rank += count;
+    }
+    return rank;
+  }
+
+  /**
+   * Returns the rows matching the filters and search term of the query.
+   */
+  protected getMatchingRows(query: Query): EntityRow[] {
+    const search = query.getSearch();
+    return this.getRows().filter(
+      (row: EntityRow) =>
+        query
+          .getWhere()
+          .every(
+            (condition: QueryCondition) =>
+              this.matchesCondition(row, condition) === true
+          ) &&
+        (!search || this.getSearchRank(row, search) > 0)
+    );
+  }
+
+  /**
+   * Compares the rows on the sort fields, followed by the id as tiebreaker. Text is compared case-insensitive and
+   * NULL values are ordered first, as Sqlite does.
+   */
+  protected compareRows(
+    sorts: QuerySort[],
+    values1: ColumnValue[],
+    values2: ColumnValue[]
+  ): number {
+    for (let iter = 0; iter < sorts.length; iter += 1) {
+      const comparison = this.compareValues(
+        values1[iter],
+        values2[iter],
+        this.definition.filterSortFields?.[sorts[iter].field] === 'string'
+      );
+      if (comparison !== 0) {
+        return sorts[iter].direction === 'asc' ? comparison : -comparison;
+      }
+    }
+    return this.compareValues(
+      values1[sorts.length],
+      values2[sorts.length],
+      false
+    );
+  }
+
+  /**
+   * Returns the values of the cursor in the way they are compared to the rows.
+   */
+  protected getCursorValues(
+    sorts: QuerySort[],
+    cursor: QueryCursor
+  ): ColumnValue[] {
+    if (cursor.values.length !== sorts.length) {
+      throw new TypeError('The cursor does not match the sort of the query.');
+    }
+    return [
+      ...sorts.map((sort: QuerySort, index: number) =>
+        this.getFilterValue(sort.field, cursor.values[index])
+      ),
+      cursor.id,
+    ];
+  }
+
+  public async getByQuery(
+    query: Query,
+    options: ExpandOptions = {}
+  ): Promise<T[]> {
+    let rows = this.getMatchingRows(query);
+
+    const sorts = query.getSort();
+    const cursor = query.getAfter();
+    const search = query.getSearch();
+    if (sorts.length > 0 || cursor) {
+      const getValues = (row: EntityRow): ColumnValue[] => [
+        ...sorts.map((sort: QuerySort) => this.getColumnValue(row, sort.field)),
+        row.id,
+      ];
+      rows.sort((row1: EntityRow, row2: EntityRow) =>
+        this.compareRows(sorts, getValues(row1), getValues(row2))
+      );
+      if (cursor) {
+        const cursorValues = this.getCursorValues(sorts, cursor);
+        rows = rows.filter(
+          (row: EntityRow) =>
+            this.compareRows(sorts, getValues(row), cursorValues) > 0
+        );
+      }
+    } else if (search) {
+      // Without a sort, search results are ordered by relevance.
+      rows.sort(
+        (row1: EntityRow, row2: EntityRow) =>
+          this.getSearchRank(row2, search) - this.getSearchRank(row1, search) ||
+          this.compareValues(row1.id, row2.id)
+      );
+    }
+
+    const limit = query.getLimit();
+    if (limit) {
+      const offset = cursor ? 0 : (query.getOffset() ?? 0);
+      rows = rows.slice(offset, offset + limit);
+    }
+
+    debug('Found result count', rows.length);
+    return await this.transformQueryResultRows(rows, options);
+  }
+
+  public count(query: Query): Promise<number> {
+    return Promise.resolve(this.getMatchingRows(query).length);
+  }
+
+  protected deleteRowUsingId(id: string): Promise<void> {
+    this.getTable().delete(id);
+    return Promise.resolve();
+  }
+
+  protected getReferringRows(
+    relation: Relation,
+    ids: string[]
+  ): Promise<EntityRow[]> {
+    // The relation is stored as the id, or an array of ids, of the related entities.
+    const rows = this.getRows().filter((row: EntityRow) => {
+      const value = getFieldValue(JSON.parse(row.contents), relation.field);
+      return relation.multiple
+        ? Array.isArray(value) && value.some((id: string) => ids.includes(id))
+        : ids.includes(value as string);
+    });
+    return Promise.resolve(rows);
+  }
+
+  protected queryRowsByQuery(query: Query): Promise<EntityRow[]> {
+    return Promise.resolve(this.getMatchingRows(query));
+  }
+
+  protected deleteRowsByQuery(query: Query): Promise<number> {
+    const rows = this.getMatchingRows(query);
+    const table = this.getTable();
+    for (const row of rows) {
+      table.delete(row.id);
+    }
+    return Promise.resolve(rows.length);
+  }
+
+  protected setDeletedAt(
+    query: Query,
+    deletedAt: string | null
+  ): Promise<number> {
+    const rows = this.getMatchingRows(query);
+    const table = this.getTable();
+    for (const row of rows) {
+      const contents = JSON.parse(row.contents);
+      if (deletedAt === null) {
+        delete contents[DELETED_AT_FIELD];
+      } else {
+        contents[DELETED_AT_FIELD] = deletedAt;
+      }
+      if (this.definition.versioning) {
+        contents[VERSION_FIELD] = (this.getReadVersion(contents) ?? 0) + 1;
+      }
+      table.set(row.id, JSON.stringify(contents));
+    }
+    return Promise.resolve(rows.length);
+  }
+
+  protected getCreateRow(object: Omit<T, 'id'>): EntityRow {
+    return {
+      id: typeof object.id === 'string' ? object.id : generate(),
+      contents: JSON.stringify(
+        this.validate(
+          this.setManagedFields(
+            {
+              ...this.definition.template,
+              ...this.simplifyRelations(object),
+            },
+            true
+          )
+        )
+      ),
+    };
+  }
+
+  protected getUpdateRow(object: T): EntityRow {
+    const simplifiedObject: any = this.validate(
+      this.setManagedFields(this.simplifyRelations(object) as BaseEntity, false)
+    );
+    delete simplifiedObject.id; // the id is stored as the key of the row
+
+    return {
+      id: object.id || '',
+      contents: JSON.stringify(simplifiedObject),
+    };
+  }
+
+  /**
+   * Checks the unique constraints, like a UNIQUE index a constraint does not apply to rows with a NULL value.
+   */
+  protected checkUniqueFields(row: EntityRow, table: Map<string, string>) {
+    for (const fields of getUniqueFieldGroups(this.definition)) {
+      const values = fields.map((field: string) =>
+        this.getColumnValue(row, field)
+      );
+      if (values.includes(null)) {
+        continue;
+      }
+      for (const [id, contents] of table) {
+        if (
+          id !== row.id &&
+          fields.every(
+            (field: string, index: number) =>
+              this.getColumnValue({ id, contents }, field) === values[index]
+          )
+        ) {
+          throw this.createUniqueConstraintError(fields);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stores the rows, nothing is stored when one of them violates a constraint. Returns the stored rows, an update
+   * skips the rows that do not exist.
+   */
+  protected storeRows(rows: EntityRow[], insert: boolean): EntityRow[] {
+    const table = new Map(this.getTable());
+    const stored: EntityRow[] = [];
+    for (const row of rows) {
+      if (insert && table.has(row.id)) {
+        throw this.createUniqueConstraintError(['id']);
+      }
+      if (!insert && !table.has(row.id)) {
+        continue;
+      }
+      this.checkUniqueFields(row, table);
+      table.set(row.id, row.contents);
+      stored.push(row);
+    }
+    this.connection.set(this.tableName, table);
+    return stored;
+  }
+
+  public create(object: Omit<T, 'id'>, options: WriteOptions = {}): Promise<T> {
+    return this.runInTransaction(async () => {
+      const row = this.getCreateRow(object);
+      debug('Creating row.', row);
+      this.storeRows([row], true);
+      await this.recordHistory('create', [row], options);
+
+      return (await this.getById(row.id)) as unknown as T;
+    });
+  }
+
+  public createMany(
+    objects: Omit<T, 'id'>[],
+    options: WriteOptions = {}
+  ): Promise<T[]> {
+    return this.runInTransaction(async () => {
+      const rows = objects.map((object) => this.getCreateRow(object));
+      debug('Creating multiple rows.', rows.length);
+      this.storeRows(rows, true);
+      await this.recordHistory('create', rows, options);
+
+      // The inserted rows contain everything that is needed to construct the entities, no need to query them again.
+      return await this.transformQueryResultRows(rows);
+    });
+  }
+
+  /**
+   * Checks that the rows of entities with versioning still have the version the entities were read with. The entities
+   * without a row are skipped, they are not updated.
+   */
+  protected checkVersions(objects: T[]): void {
+    if (!this.definition.versioning) {
+      return;
+    }
+    const table = this.getTable();
+    for (const object of objects) {
+      const id = object.id as string;
+      const contents = table.get(id);
+      if (
+        typeof contents !== 'undefined' &&
+        this.getColumnValue({ id, contents }, VERSION_FIELD) !==
+          this.getReadVersion(object)
+      ) {
+        throw this.createConflictError(id);
+      }
+    }
+  }
+
+  public update(object: T, options: WriteOptions = {}): Promise<T> {
+    return this.runInTransaction(async () => {
+      const [kept] = await this.keepStoredFields([object]);
+      const row = this.getUpdateRow(kept);
+      debug('Updating row.', row);
+      this.checkVersions([object]);
+      await this.recordHistory('update', this.storeRows([row], false), options);
+
+      return (await this.queryById(object.id as string)) as unknown as T;
+    });
+  }
+
+  public updateMany(objects: T[], options: WriteOptions = {}): Promise<T[]> {
+    return this.runInTransaction(async () => {
+      const rows = (await this.keepStoredFields(objects)).map((object) =>
+        this.getUpdateRow(object)
+      );
+      debug('Updating multiple rows.', rows.length);
+      this.checkVersions(objects);
+      const updatedRows = this.storeRows(rows, false);
+      await this.recordHistory('update', updatedRows, options);
+
+      return await this.queryUpdatedEntities(
+        updatedRows.map((row: EntityRow) => row.id)
+      );
+    });
+  }
+
+  protected getHistoryTable(): Map<string, string> {
+    const historyTableName = getHistoryTableName(this.tableName);
+    const table = this.connection.get(historyTableName);
+    if (typeof table === 'undefined') {
+      throw new Error(`Table ${historyTableName} does not exist.`);
+    }
+    return table;
+  }
+
+  protected insertHistoryRows(rows: HistoryRow[]): Promise<void> {
+    const table = this.getHistoryTable();
+    debug('Inserting history rows.', rows.length);
+    for (const row of rows) {
+      table.set(String(table.size + 1), JSON.stringify(row));
+    }
+    return Promise.resolve();
+  }
+
+  protected queryHistoryRows(
+    id: string,
+    until?: string
+  ): Promise<HistoryRow[]> {
+    const rows = [...this.getHistoryTable().values()]
+      .map((contents: string) => JSON.parse(contents) as HistoryRow)
+      .filter(
+        (row: HistoryRow) =>
+          row.entityId === id &&
+          (typeof until === 'undefined' || row.recordedAt <= until)
+      );
+    return Promise.resolve(rows);
+  }
+
+  protected async queryById(
+    id: string,
+    options: ExpandOptions = {}
+  ): Promise<T | null> {
+    const contents = this.getTable().get(id);
+    if (typeof contents === 'undefined') {
+      debug('No result for queryById().');
+      return null;
+    }
+    return await this.transformQueryResultRow({ id, contents }, options);
+  }
+}
+
+export default Repository;
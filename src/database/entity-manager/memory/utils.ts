@@ -0,0 +1,33 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { MemoryDatabase } from './connection.js';
+
+const debug: Debugger = Debug('supersave:db:em:memory');
+
+/**
+ * Runs the callback within a transaction. The tables are copied before the callback is run and restored when it
+ * throws.
+ */
+export async function withSnapshot<R>(
+  connection: MemoryDatabase,
+  callback: () => Promise<R>
+): Promise<R> {
+  const snapshot = new Map(
+    [...connection.entries()].map(([tableName, rows]) => [
+      tableName,
+      new Map(rows),
+    ])
+  );
+
+  debug('Starting transaction.');
+  try {
+    return await callback();
+  } catch (error) {
+    debug('Rolling back transaction.');
+    connection.clear();
+    for (const [tableName, rows] of snapshot) {
+      connection.set(tableName, rows);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { Pool } from 'mysql2/promise';
+import type { EntityDefinition } from '../../types.js';
+import { executeQuery } from './utils.js';
+
+const debug: Debugger = Debug('supersave:db:mysql:history');
+
+export function getHistoryTableName(tableName: string): string {
+  return `${tableName}_history`;
+}
+
+/**
+ * Creates the table in which the changes to an entity with history are recorded. The table is kept when the history
+ * is no longer enabled, so the recorded changes are not lost.
+ */
+export default async function syncHistory(
+  entity: EntityDefinition,
+  tableName: string,
+  pool: Pool
+): Promise<void> {
+  if (!entity.history) {
+    return;
+  }
+
+  const historyTableName = getHistoryTableName(tableName);
+  debug(`Creating history table ${historyTableName}.`);
+  await executeQuery(
+    pool,
+    `CREATE TABLE IF NOT EXISTS ${pool.escapeId(historyTableName)} (id BIGINT AUTO_INCREMENT PRIMARY KEY, entity_id VARCHAR(32) NOT NULL, operation VARCHAR(16) NOT NULL, contents JSON NOT NULL, recorded_at VARCHAR(24) NOT NULL, actor VARCHAR(255) NULL, INDEX idx_entity_id (entity_id, id))`
+  );
+}
@@ -1,17 +1,23 @@
 import type { Debugger } from 'debug';
 import Debug from 'debug';
-import type { Pool } from 'mysql2/promise';
+import type { Pool, PoolConnection } from 'mysql2/promise';
 import slug from 'slug';
 import type {
   BaseEntity,
   EntityDefinition,
   FilterSortField,
 } from '../../types.js';
-import EntityManager, { type AddEntityOptions } from '../entity-manager.js';
+import EntityManager, {
+  type AddEntityOptions,
+  type Transaction,
+} from '../entity-manager.js';
 import type BaseRepository from '../repository.js';
+import { getManagedFields } from '../utils.js';
+import syncHistory from './history.js';
 import Repository from './repository.js';
 import sync from './sync.js';
-import { executeQuery } from './utils.js';
+import syncUniqueIndexes from './unique.js';
+import { executeQuery, getConnectionFromPool } from './utils.js';
 
 const debug: Debugger = Debug('supersave:db:em:mysql');
 
@@ -27,6 +33,7 @@ class MysqlEntityManager extends EntityManager {
     const filterSortFields: Record<string, FilterSortField> = {
       ...(entity.filterSortFields ?? {}),
       id: 'string',
+      ...getManagedFields(entity),
     };
 
     const updatedEntity: EntityDefinition = {
@@ -45,21 +52,95 @@ class MysqlEntityManager extends EntityManager {
       updatedEntity,
       tableName,
       (name: string, namespace?: string) => this.getRepository(name, namespace),
+      () => this.getDefinitions(),
       this.pool
     );
 
     if (!options.skipSync) {
       await sync(updatedEntity, tableName, this.pool, repository);
+      await syncUniqueIndexes(updatedEntity, tableName, this.pool);
+      await syncHistory(updatedEntity, tableName, this.pool);
     }
 
     this.repositories.set(fullEntityName, repository);
+    this.definitions.set(fullEntityName, updatedEntity);
     return this.getRepository(entity.name, entity.namespace);
   }
 
-  public getEngineType(): 'mysql' | 'sqlite' {
+  public getEngineType(): 'mysql' | 'sqlite' | 'postgres' | 'memory' {
     return 'mysql';
   }
 
+  /**
+   * Pins a single connection from the pool for the duration of the transaction. Nested
+   * transactions are implemented using savepoints on that same connection.
+   */
+  public async transaction<R>(
+    callback: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    const connection = await getConnectionFromPool(this.pool);
+    try {
+      debug('Starting transaction.');
+      await connection.beginTransaction();
+      try {
+        const result = await callback(this.createTransaction(connection));
+        await connection.commit();
+        debug('Committed transaction.');
+        return result;
+      } catch (error) {
+        debug('Rolling back transaction.');
+        await connection.rollback();
+        throw error;
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
+  private createTransaction(connection: PoolConnection): Transaction {
+    const repositories = new Map<string, Repository<any>>();
+    let savepointCount = 0;
+
+    const transaction: Transaction = {
+      getRepository: <T extends BaseEntity>(
+        name: string,
+        namespace?: string
+      ): Repository<T> => {
+        const fullEntityName = this.getFullEntityName(name, namespace);
+        const existing = repositories.get(fullEntityName);
+        if (existing) {
+          return existing as Repository<T>;
+        }
+
+        const repository = (
+          this.getRepository<T>(name, namespace) as Repository<T>
+        ).withConnection(
+          connection,
+          (relationName: string, relationNamespace?: string) =>
+            transaction.getRepository(relationName, relationNamespace)
+        );
+        repositories.set(fullEntityName, repository);
+        return repository;
+      },
+      transaction: async <R>(
+        nestedCallback: (transaction: Transaction) => Promise<R>
+      ): Promise<R> => {
+        savepointCount += 1;
+        const savepoint = connection.escapeId(`supersave_${savepointCount}`);
+        await executeQuery(connection, `SAVEPOINT ${savepoint}`);
+        try {
+          const result = await nestedCallback(transaction);
+          await executeQuery(connection, `RELEASE SAVEPOINT ${savepoint}`);
+          return result;
+        } catch (error) {
+          await executeQuery(connection, `ROLLBACK TO SAVEPOINT ${savepoint}`);
+          throw error;
+        }
+      },
+    };
+    return transaction;
+  }
+
   protected createTable(tableName: string): Promise<void> {
     debug(`Creating table ${tableName}.`);
 
@@ -1,6 +1,6 @@
 import type { Debugger } from 'debug';
 import Debug from 'debug';
-import type { Pool } from 'mysql2/promise';
+import type { Pool, PoolConnection } from 'mysql2/promise';
 import shortUuid from 'short-uuid';
 
 const { generate } = shortUuid;
@@ -9,16 +9,39 @@ import type {
   BaseEntity,
   EntityDefinition,
   EntityRow,
+  ExpandOptions,
+  HistoryRow,
+  QueryCondition,
+  QueryCursor,
   QueryFilter,
   QuerySort,
+  Relation,
+  WriteOptions,
 } from '../../types.js';
 import { QueryOperatorEnum } from '../../types.js';
 import type Query from '../query.js';
 import BaseRepository from '../repository.js';
-import { executeQuery, getQuery } from './utils.js';
+import {
+  DELETED_AT_FIELD,
+  getColumnName,
+  getUniqueFieldGroups,
+  getUniqueIndexName,
+  VERSION_FIELD,
+} from '../utils.js';
+import { getHistoryTableName } from './history.js';
+import {
+  executeQuery,
+  executeUpdate,
+  getQuery,
+  getSearchColumnName,
+  withTransaction,
+} from './utils.js';
 
 const debug: Debugger = Debug('supersave:db:mysql:repo');
 
+// The maximum number of rows inserted using a single multi-row INSERT statement.
+const BATCH_SIZE = 500;
+
 class Repository<T extends BaseEntity> extends BaseRepository<T> {
   constructor(
     protected readonly definition: EntityDefinition,
@@ -27,114 +50,279 @@ class Repository<T extends BaseEntity> extends BaseRepository<T> {
       name: string,
       namespace?: string
     ) => BaseRepository<any>,
-    protected readonly pool: Pool
+    protected readonly getDefinitions: () => EntityDefinition[],
+    protected readonly connection: Pool | PoolConnection
   ) {
-    super(definition, tableName, getRepository);
+    super(definition, tableName, getRepository, getDefinitions);
   }
 
-  public async getByIds(ids: string[]): Promise<T[]> {
-    const wherePlaceholders: string[] = [];
-    const whereValues: (string | number | boolean)[] = [];
+  /**
+   * Returns a copy of this repository that runs its queries on the provided connection,
+   * used to bind the repository to a transaction.
+   */
+  public withConnection(
+    connection: PoolConnection,
+    getRepository: (name: string, namespace?: string) => BaseRepository<any>
+  ): Repository<T> {
+    return new Repository<T>(
+      this.definition,
+      this.tableName,
+      getRepository,
+      this.getDefinitions,
+      connection
+    );
+  }
 
-    ids.forEach((value) => {
-      wherePlaceholders.push('?');
-      whereValues.push(value);
+  /**
+   * Runs the callback on a copy of this repository that is bound to a transaction, the repositories of the related
+   * entities it retrieves are bound to the same transaction.
+   */
+  protected runInTransaction<R>(
+    callback: (repository: this) => Promise<R>
+  ): Promise<R> {
+    return withTransaction(this.connection, (connection: PoolConnection) => {
+      const getRepository = (
+        name: string,
+        namespace?: string
+      ): BaseRepository<any> =>
+        (this.getRepository(name, namespace) as Repository<any>).withConnection(
+          connection,
+          getRepository
+        );
+      return callback(this.withConnection(connection, getRepository) as this);
     });
+  }
 
-    const query = `SELECT id,contents FROM ${this.pool.escapeId(
+  protected async queryRowsByIds(ids: string[]): Promise<EntityRow[]> {
+    const query = `SELECT id,contents FROM ${this.connection.escapeId(
       this.tableName
-    )} WHERE id IN(${wherePlaceholders.join(',')})`;
-    const result = await getQuery<
-      EntityRow | { id: string; contents: string | object }
-    >(this.pool, query, whereValues);
+    )} WHERE id IN(${ids.map(() => '?').join(',')})`;
+    return await getQuery<EntityRow>(this.connection, query, ids);
+  }
 
-    if (result) {
-      const transformResult: T[] = await Promise.all(
-        result.map((element) => this.transformQueryResultRow(element))
+  /**
+   * Generates the WHERE clause, including the values for its placeholders, for the filters of the query.
+   */
+  protected getWhereClause(
+    query: Query,
+    includeCursor = false
+  ): [string, (string | number | boolean)[]] {
+    const values: (string | number | boolean)[] = [];
+    const where: string[] = [];
+
+    query.getWhere().forEach((condition: QueryCondition) => {
+      const clause = this.getConditionClause(condition, values);
+      if (clause !== '') {
+        where.push(clause);
+      }
+    });
+
+    const search = query.getSearch();
+    if (search) {
+      where.push(this.getSearchMatch());
+      values.push(this.getSearchTerm(search));
+    }
+
+    const cursor = query.getAfter();
+    if (includeCursor && cursor) {
+      const [cursorCondition, cursorValues] = this.getCursorCondition(
+        query.getSort(),
+        cursor
       );
-      return transformResult;
+      where.push(cursorCondition);
+      values.push(...cursorValues);
     }
-    return [];
+
+    return [where.length > 0 ? `WHERE ${where.join(' AND ')}` : '', values];
   }
 
-  public async getAll(): Promise<T[]> {
-    const query = `SELECT id,contents FROM ${this.pool.escapeId(
-      this.tableName
-    )}`;
-    const result = await getQuery<
-      EntityRow | { id: string; contents: string | object }
-    >(this.pool, query);
+  /**
+   * Generates the MATCH expression for the FULLTEXT index on the search fields, its value is the search term.
+   * It results in the relevance of the row, which is 0 when it does not match.
+   */
+  protected getSearchMatch(): string {
+    const columns = (this.definition.searchFields ?? []).map((field: string) =>
+      this.connection.escapeId(getSearchColumnName(field))
+    );
+    return `MATCH(${columns.join(',')}) AGAINST (? IN BOOLEAN MODE)`;
+  }
 
-    if (result) {
-      const newResults: T[] = [];
-      for (const row of result) {
-        newResults.push(await this.transformQueryResultRow(row));
+  /**
+   * Converts the search term to a boolean mode query. Every word is quoted, so characters that have a special meaning
+   * in the query syntax are matched literally, and required, so a row matches when it contains all words.
+   */
+  protected getSearchTerm(search: string): string {
+    return search
+      .split(/\s+/)
+      .map((word: string) => word.replace(/"/g, ''))
+      .filter((word: string) => word !== '')
+      .map((word: string) => `+"${word}"`)
+      .join(' ');
+  }
+
+  /**
+   * Generates the condition for a single filter or a group of filters, adding the values for its
+   * placeholders to the provided values in the order they appear in the condition.
+   */
+  protected getConditionClause(
+    condition: QueryCondition,
+    values: (string | number | boolean)[]
+  ): string {
+    if ('filters' in condition) {
+      const clauses = condition.filters
+        .map((filter: QueryCondition) =>
+          this.getConditionClause(filter, values)
+        )
+        .filter((clause: string) => clause !== '');
+      if (clauses.length === 0) {
+        return '';
       }
-      return newResults;
+      if (condition.operator === 'NOT') {
+        return `NOT (${clauses.join(' AND ')})`;
+      }
+      return `(${clauses.join(` ${condition.operator} `)})`;
     }
-    return [];
+
+    const queryFilter: QueryFilter = condition;
+    let clause: string;
+    if (queryFilter.operator === QueryOperatorEnum.IN) {
+      const placeholders: string[] = [];
+      queryFilter.value.forEach((value: string) => {
+        const placeholder = '?';
+        placeholders.push(placeholder);
+        values.push(value);
+      });
+
+      clause = `${this.connection.escapeId(getColumnName(queryFilter.field))} IN(${placeholders.join(
+        ','
+      )})`;
+    } else if (
+      queryFilter.operator === QueryOperatorEnum.CONTAINS ||
+      queryFilter.operator === QueryOperatorEnum.CONTAINS_ANY
+    ) {
+      // The items are read from the contents, which also works for relations that are stored comma-separated in their column.
+      const items: (string | number)[] =
+        queryFilter.operator === QueryOperatorEnum.CONTAINS
+          ? [queryFilter.value]
+          : queryFilter.value;
+      const conditions = items.map((item: string | number) => {
+        values.push(JSON.stringify(item), `$.${queryFilter.field}`);
+        return 'JSON_CONTAINS(contents, ?, ?) = 1';
+      });
+      clause =
+        conditions.length > 0 ? `(${conditions.join(' OR ')})` : '(1 = 0)';
+    } else if (
+      queryFilter.operator === QueryOperatorEnum.EQUALS &&
+      (queryFilter.value === null || queryFilter.value === undefined)
+    ) {
+      // Handle null comparison - use IS NULL instead of = NULL
+      clause = `${this.connection.escapeId(getColumnName(queryFilter.field))} IS NULL`;
+    } else {
+      clause = `${this.connection.escapeId(getColumnName(queryFilter.field))} ${queryFilter.operator} ?`;
+      if (
+        this.definition.filterSortFields &&
+        this.definition.filterSortFields[queryFilter.field] === 'boolean'
+      ) {
+        values.push(['1', 1, 'true', true].includes(queryFilter.value) ? 1 : 0);
+      } else if (queryFilter.operator === QueryOperatorEnum.LIKE) {
+        values.push(`${queryFilter.value}`.replace(/\*/g, '%'));
+      } else {
+        values.push(queryFilter.value);
+      }
+    }
+
+    return clause;
   }
 
-  public async getByQuery(query: Query): Promise<T[]> {
+  /**
+   * Generates the condition that matches the rows positioned after the cursor. The rows are ordered by
+   * the sort fields, followed by the id as tiebreaker. NULL values are ordered first, as Mysql does.
+   */
+  protected getCursorCondition(
+    sorts: QuerySort[],
+    cursor: QueryCursor
+  ): [string, (string | number | boolean)[]] {
+    if (cursor.values.length !== sorts.length) {
+      throw new TypeError('The cursor does not match the sort of the query.');
+    }
+
+    const conditions: string[] = [];
     const values: (string | number | boolean)[] = [];
-    const where: string[] = [];
+    const equals: string[] = [];
+    const equalsValues: (string | number | boolean)[] = [];
 
-    query.getWhere().forEach((queryFilter: QueryFilter) => {
-      if (queryFilter.operator === QueryOperatorEnum.IN) {
-        const placeholders: string[] = [];
-        queryFilter.value.forEach((value: string) => {
-          const placeholder = '?';
-          placeholders.push(placeholder);
-          values.push(value);
-        });
-
-        where.push(
-          `${this.pool.escapeId(queryFilter.field)} IN(${placeholders.join(
-            ','
-          )})`
-        );
-      } else if (
-        queryFilter.operator === QueryOperatorEnum.EQUALS &&
-        (queryFilter.value === null || queryFilter.value === undefined)
+    sorts.forEach((sort: QuerySort, index: number) => {
+      const column = this.connection.escapeId(getColumnName(sort.field));
+      let value = cursor.values[index];
+      if (
+        value !== null &&
+        this.definition.filterSortFields?.[sort.field] === 'boolean'
       ) {
-        // Handle null comparison - use IS NULL instead of = NULL
-        where.push(`${this.pool.escapeId(queryFilter.field)} IS NULL`);
-      } else {
-        where.push(
-          `${this.pool.escapeId(queryFilter.field)} ${queryFilter.operator} ?`
-        );
-        if (
-          this.definition.filterSortFields &&
-          this.definition.filterSortFields[queryFilter.field] === 'boolean'
-        ) {
-          values.push(
-            ['1', 1, 'true', true].includes(queryFilter.value) ? 1 : 0
+        value = ['1', 1, 'true', true].includes(value) ? 1 : 0;
+      }
+
+      if (value === null) {
+        // Only non-null values follow a null value in ascending order, nothing follows it in descending order.
+        if (sort.direction === 'asc') {
+          conditions.push(
+            `(${[...equals, `${column} IS NOT NULL`].join(' AND ')})`
           );
-        } else if (queryFilter.operator === QueryOperatorEnum.LIKE) {
-          values.push(`${queryFilter.value}`.replace(/\*/g, '%'));
-        } else {
-          values.push(queryFilter.value);
+          values.push(...equalsValues);
         }
+        equals.push(`${column} IS NULL`);
+      } else {
+        const after =
+          sort.direction === 'asc'
+            ? `${column} > ?`
+            : `(${column} < ? OR ${column} IS NULL)`;
+        conditions.push(`(${[...equals, after].join(' AND ')})`);
+        values.push(...equalsValues, value);
+        equals.push(`${column} = ?`);
+        equalsValues.push(value);
       }
     });
 
-    let sqlQuery = `SELECT id,contents FROM ${this.pool.escapeId(
+    conditions.push(
+      `(${[...equals, `${this.connection.escapeId('id')} > ?`].join(' AND ')})`
+    );
+    values.push(...equalsValues, cursor.id);
+
+    return [`(${conditions.join(' OR ')})`, values];
+  }
+
+  public async getByQuery(
+    query: Query,
+    options: ExpandOptions = {}
+  ): Promise<T[]> {
+    const [where, values] = this.getWhereClause(query, true);
+
+    let sqlQuery = `SELECT id,contents FROM ${this.connection.escapeId(
       this.tableName
     )}
-      ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+      ${where}
     `;
-    if (query.getSort().length > 0) {
-      sqlQuery = `${sqlQuery} ORDER BY ${query
-        .getSort()
-        .map(
-          (sort: QuerySort) =>
-            `${this.pool.escapeId(sort.field)} ${sort.direction}`
-        )
-        .join(',')}`;
+    const sorts = query
+      .getSort()
+      .map(
+        (sort: QuerySort) =>
+          `${this.connection.escapeId(getColumnName(sort.field))} ${sort.direction}`
+      );
+    // Without a sort, search results are ordered by relevance.
+    const search = query.getSearch();
+    if (search && sorts.length === 0 && !query.getAfter()) {
+      sorts.push(`${this.getSearchMatch()} DESC`);
+      values.push(this.getSearchTerm(search));
+    }
+    if (sorts.length > 0 || query.getAfter()) {
+      // The id makes the order deterministic, which is required for paginating using a cursor.
+      sorts.push(`${this.connection.escapeId('id')} asc`);
+    }
+    if (sorts.length > 0) {
+      sqlQuery = `${sqlQuery} ORDER BY ${sorts.join(',')}`;
     }
     if (query.getLimit()) {
       sqlQuery = `${sqlQuery} LIMIT ${
-        typeof query.getOffset() !== 'undefined'
+        typeof query.getOffset() !== 'undefined' && !query.getAfter()
           ? `${query.getOffset()},${query.getLimit()}`
           : query.getLimit()
       }`;
@@ -143,94 +331,331 @@ class Repository<T extends BaseEntity> extends BaseRepository<T> {
     debug('Querying data using query.', sqlQuery);
     const result = await getQuery<
       EntityRow | { id: string; contents: string | object }
-    >(this.pool, sqlQuery, values);
+    >(this.connection, sqlQuery, values);
     debug('Found result count', result.length);
     if (result) {
-      const newResults: T[] = await Promise.all(
-        result.map((row) => this.transformQueryResultRow(row))
-      );
-      return newResults;
+      return await this.transformQueryResultRows(result, options);
     }
     return [];
   }
 
-  public async deleteUsingId(id: string): Promise<void> {
-    const query = `DELETE FROM ${this.pool.escapeId(
+  public async count(query: Query): Promise<number> {
+    const [where, values] = this.getWhereClause(query);
+    const sqlQuery = `SELECT COUNT(*) AS total FROM ${this.connection.escapeId(
+      this.tableName
+    )} ${where}`;
+    debug('Counting using query.', sqlQuery, values);
+    const result = await getQuery<{ total: number | string }>(
+      this.connection,
+      sqlQuery,
+      values
+    );
+    return Number(result[0].total);
+  }
+
+  protected async deleteRowUsingId(id: string): Promise<void> {
+    const query = `DELETE FROM ${this.connection.escapeId(
       this.tableName
     )} WHERE id = ?`;
-    await executeQuery(this.pool, query, [id]);
+    await executeQuery(this.connection, query, [id]);
   }
 
-  public async create(object: Omit<T, 'id'>): Promise<T> {
-    const uuid =
-      typeof object.id === 'string' ? (object.id as string) : generate();
+  protected async getReferringRows(
+    relation: Relation,
+    ids: string[]
+  ): Promise<EntityRow[]> {
+    // The relation is stored as the id, or an array of ids, of the related entities.
+    const placeholders = ids.map(() => '?').join(',');
+    let where = `JSON_UNQUOTE(JSON_EXTRACT(contents, ?)) IN (${placeholders})`;
+    let values = [`$.${relation.field}`, ...ids];
+    if (relation.multiple) {
+      where = `(${ids.map(() => 'JSON_CONTAINS(contents, ?, ?) = 1').join(' OR ')})`;
+      values = ids.flatMap((id) => [JSON.stringify(id), `$.${relation.field}`]);
+    } else if (this.definition.filterSortFields?.[relation.field]) {
+      // Use the indexed column of the relation.
+      where = `${this.connection.escapeId(getColumnName(relation.field))} IN (${placeholders})`;
+      values = ids;
+    }
 
-    const values: (string | number | null)[] = [
-      uuid,
-      JSON.stringify({
-        ...this.definition.template,
-        ...this.simplifyRelations(object),
-      }),
-    ];
+    const query = `SELECT id,contents FROM ${this.connection.escapeId(
+      this.tableName
+    )} WHERE ${where}`;
+    debug('Query for referring rows.', query, values);
+    return await getQuery<EntityRow>(this.connection, query, values);
+  }
+
+  protected async queryRowsByQuery(query: Query): Promise<EntityRow[]> {
+    const [where, values] = this.getWhereClause(query);
+    const sqlQuery = `SELECT id,contents FROM ${this.connection.escapeId(
+      this.tableName
+    )} ${where}`;
+    debug('Query for rows by query.', sqlQuery, values);
+    return await getQuery<EntityRow>(this.connection, sqlQuery, values);
+  }
+
+  protected async deleteRowsByQuery(query: Query): Promise<number> {
+    const [where, values] = this.getWhereClause(query);
+    const sqlQuery = `DELETE FROM ${this.connection.escapeId(
+      this.tableName
+    )} ${where}`;
+    debug('Generated delete query.', sqlQuery, values);
+    return await executeUpdate(this.connection, sqlQuery, values);
+  }
 
-    // Use INSERT ... SET syntax to explicitly set only id and contents
-    // This avoids any issues with generated columns
-    const query = `INSERT INTO ${this.pool.escapeId(
+  protected async setDeletedAt(
+    query: Query,
+    deletedAt: string | null
+  ): Promise<number> {
+    const [where, values] = this.getWhereClause(query);
+    let contents =
+      deletedAt === null
+        ? `JSON_REMOVE(contents, '$.${DELETED_AT_FIELD}')`
+        : `JSON_SET(contents, '$.${DELETED_AT_FIELD}', ?)`;
+    if (this.definition.versioning) {
+      contents = `JSON_SET(${contents}, '$.${VERSION_FIELD}', COALESCE(${this.connection.escapeId(VERSION_FIELD)}, 0) + 1)`;
+    }
+    const sqlQuery = `UPDATE ${this.connection.escapeId(
       this.tableName
-    )} SET ${this.pool.escapeId('id')} = ?, ${this.pool.escapeId(
-      'contents'
-    )} = ?`;
-    debug('Generated create query.', query, values);
+    )} SET contents = ${contents} ${where}`;
+    debug('Generated soft delete query.', sqlQuery, values);
+    return await executeUpdate(
+      this.connection,
+      sqlQuery,
+      deletedAt === null ? values : [deletedAt, ...values]
+    );
+  }
+
+  protected getCreateRow(object: Omit<T, 'id'>): EntityRow {
+    return {
+      id: typeof object.id === 'string' ? (object.id as string) : generate(),
+      contents: JSON.stringify(
+        this.validate(
+          this.setManagedFields(
+            {
+              ...this.definition.template,
+              ...this.simplifyRelations(object),
+            },
+            true
+          )
+        )
+      ),
+    };
+  }
 
-    await executeQuery(this.pool, query, values);
+  /**
+   * Converts the violation of a unique index or the primary key to a UniqueConstraintError, other errors are
+   * returned as is.
+   */
+  protected convertError(error: unknown): unknown {
+    if ((error as { code?: string })?.code !== 'ER_DUP_ENTRY') {
+      return error;
+    }
+
+    // The message names the index, with the table name as prefix in MySQL 8: Duplicate entry 'x' for key 'planet.name'
+    const indexName = /for key '(?:[^'.]*\.)?([^']*)'$/.exec(
+      (error as Error).message
+    )?.[1];
+    const fields =
+      indexName === 'PRIMARY'
+        ? ['id']
+        : (getUniqueFieldGroups(this.definition).find(
+            (group: string[]) =>
+              getUniqueIndexName(this.tableName, group) === indexName
+          ) ?? []);
+    return this.createUniqueConstraintError(fields);
+  }
+
+  public create(object: Omit<T, 'id'>, options: WriteOptions = {}): Promise<T> {
+    return this.runInTransaction(async (repository) => {
+      const { connection } = repository;
+      const row = repository.getCreateRow(object);
+
+      // Use INSERT ... SET syntax to explicitly set only id and contents
+      // This avoids any issues with generated columns
+      const query = `INSERT INTO ${connection.escapeId(
+        this.tableName
+      )} SET ${connection.escapeId('id')} = ?, ${connection.escapeId(
+        'contents'
+      )} = ?`;
+      debug('Generated create query.', query, row);
+
+      try {
+        await executeQuery(connection, query, [row.id, row.contents]);
+      } catch (error) {
+        throw repository.convertError(error);
+      }
+      await repository.recordHistory('create', [row], options);
 
-    return this.getById(uuid) as unknown as T;
+      return (await repository.getById(row.id)) as unknown as T;
+    });
   }
 
-  public async update(object: T): Promise<T> {
-    const columns = ['contents'];
+  public createMany(
+    objects: Omit<T, 'id'>[],
+    options: WriteOptions = {}
+  ): Promise<T[]> {
+    return this.runInTransaction(async (repository) => {
+      const { connection } = repository;
+      const rows = objects.map((object) => repository.getCreateRow(object));
+
+      try {
+        for (let iter = 0; iter < rows.length; iter += BATCH_SIZE) {
+          const batch = rows.slice(iter, iter + BATCH_SIZE);
+          const query = `INSERT INTO ${connection.escapeId(
+            this.tableName
+          )} (${connection.escapeId('id')}, ${connection.escapeId(
+            'contents'
+          )}) VALUES ${batch.map(() => '(?, ?)').join(',')}`;
+          debug('Generated multi-row create query.', query, batch.length);
+          await executeQuery(
+            connection,
+            query,
+            batch.flatMap((row) => [row.id, row.contents])
+          );
+        }
+      } catch (error) {
+        throw repository.convertError(error);
+      }
+      await repository.recordHistory('create', rows, options);
+
+      // The inserted rows contain everything that is needed to construct the entities, no need to query them again.
+      return await repository.transformQueryResultRows(rows);
+    });
+  }
 
-    const simplifiedObject: any = this.simplifyRelations(object);
+  protected getUpdateRow(object: T): EntityRow {
+    const simplifiedObject: any = this.validate(
+      this.setManagedFields(this.simplifyRelations(object) as BaseEntity, false)
+    );
     delete simplifiedObject.id; // the id is already stored as a column
-    const values: (string | number | boolean | null)[] = [
-      JSON.stringify(simplifiedObject),
-    ];
 
-    const query = `UPDATE ${this.pool.escapeId(this.tableName)} SET
-      ${columns.map((column: string) => `${this.pool.escapeId(column)} = ?`)}
-      WHERE id = ?
-    `;
-    values.push(object.id || '');
-    debug('Generated update query.', query);
-    await executeQuery(this.pool, query, values);
-    return this.queryById(object.id as string) as unknown as Promise<T>;
-  }
-
-  protected async transformQueryResultRow(
-    row: EntityRow | { id: string; contents: string | object }
-  ): Promise<T> {
-    // MySQL JSON columns return objects, not strings - handle both cases
-    const parsedContents =
-      typeof row.contents === 'string'
-        ? JSON.parse(row.contents)
-        : row.contents;
     return {
-      ...this.definition.template,
-      ...(await this.fillInRelations(parsedContents)),
-      id: row.id, // always make the row the leading ID field
-    } as unknown as T;
+      id: object.id || '',
+      contents: JSON.stringify(simplifiedObject),
+    };
+  }
+
+  /**
+   * Updates the contents of a row, returns false when there is no row with the id. For an entity with versioning the
+   * row is only updated when it still has the version the entity was read with, a ConflictError is thrown otherwise.
+   */
+  protected async runUpdate(row: EntityRow, object: T): Promise<boolean> {
+    const { connection } = this;
+    const query = `UPDATE ${connection.escapeId(
+      this.tableName
+    )} SET ${connection.escapeId('contents')} = ? WHERE id = ?`;
+    if (!this.definition.versioning) {
+      debug('Generated update query.', query);
+      return (
+        (await executeUpdate(connection, query, [row.contents, row.id])) > 0
+      );
+    }
+
+    const versionQuery = `${query} AND ${connection.escapeId(VERSION_FIELD)} <=> ?`;
+    debug('Generated update query.', versionQuery);
+    const updated = await executeUpdate(connection, versionQuery, [
+      row.contents,
+      row.id,
+      this.getReadVersion(object),
+    ]);
+    if (updated === 0) {
+      await this.checkConflict(row.id);
+      return false;
+    }
+    return true;
+  }
+
+  public update(object: T, options: WriteOptions = {}): Promise<T> {
+    return this.runInTransaction(async (repository) => {
+      const [kept] = await repository.keepStoredFields([object]);
+      const row = repository.getUpdateRow(kept);
+
+      let updated: boolean;
+      try {
+        updated = await repository.runUpdate(row, object);
+      } catch (error) {
+        throw repository.convertError(error);
+      }
+      if (updated) {
+        await repository.recordHistory('update', [row], options);
+      }
+      return (await repository.queryById(object.id as string)) as unknown as T;
+    });
+  }
+
+  public updateMany(objects: T[], options: WriteOptions = {}): Promise<T[]> {
+    return this.runInTransaction(async (repository) => {
+      const rows = (await repository.keepStoredFields(objects)).map((object) =>
+        repository.getUpdateRow(object)
+      );
+
+      const updatedRows: EntityRow[] = [];
+      try {
+        debug('Updating multiple rows.', rows.length);
+        for (const [index, row] of rows.entries()) {
+          if (await repository.runUpdate(row, objects[index])) {
+            updatedRows.push(row);
+          }
+        }
+      } catch (error) {
+        throw repository.convertError(error);
+      }
+      await repository.recordHistory('update', updatedRows, options);
+
+      return await repository.queryUpdatedEntities(
+        updatedRows.map((row: EntityRow) => row.id)
+      );
+    });
+  }
+
+  protected async insertHistoryRows(rows: HistoryRow[]): Promise<void> {
+    const query = `INSERT INTO ${this.connection.escapeId(
+      getHistoryTableName(this.tableName)
+    )} (entity_id, operation, contents, recorded_at, actor) VALUES ${rows
+      .map(() => '(?, ?, ?, ?, ?)')
+      .join(',')}`;
+    debug('Inserting history rows.', query, rows.length);
+    await executeQuery(
+      this.connection,
+      query,
+      rows.flatMap((row) => [
+        row.entityId,
+        row.operation,
+        row.contents as string,
+        row.recordedAt,
+        row.actor,
+      ])
+    );
+  }
+
+  protected async queryHistoryRows(
+    id: string,
+    until?: string
+  ): Promise<HistoryRow[]> {
+    const query = `SELECT entity_id AS entityId, operation, contents, recorded_at AS recordedAt, actor FROM ${this.connection.escapeId(
+      getHistoryTableName(this.tableName)
+    )} WHERE entity_id = ?${typeof until === 'undefined' ? '' : ' AND recorded_at <= ?'} ORDER BY id`;
+    debug('Query for history rows.', query, id);
+    return await getQuery<HistoryRow>(
+      this.connection,
+      query,
+      typeof until === 'undefined' ? [id] : [id, until]
+    );
   }
 
-  protected async queryById(id: string): Promise<T | null> {
-    const query = `SELECT id,contents FROM ${this.pool.escapeId(
+  protected async queryById(
+    id: string,
+    options: ExpandOptions = {}
+  ): Promise<T | null> {
+    const query = `SELECT id,contents FROM ${this.connection.escapeId(
       this.tableName
     )} WHERE id = ? LIMIT 1`;
     debug('Query for getById', query, id);
     const result = await getQuery<
       EntityRow | { id: string; contents: string | object }
-    >(this.pool, query, [id]);
+    >(this.connection, query, [id]);
     if (result.length > 0) {
-      return this.transformQueryResultRow(result[0]);
+      return this.transformQueryResultRow(result[0], options);
     }
     debug('No result for queryById().');
     return null;
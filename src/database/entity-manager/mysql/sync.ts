@@ -2,9 +2,14 @@ import type { Debugger } from 'debug';
 import Debug from 'debug';
 import type { Pool, PoolConnection } from 'mysql2/promise';
 import type { EntityDefinition, FilterSortField } from '../../types.js';
-import { isEqual } from '../utils.js';
+import { getColumnName, isEqual } from '../utils.js';
 import type Repository from './repository.js';
-import { executeQuery, getConnectionFromPool, getQuery } from './utils.js';
+import {
+  executeQuery,
+  getConnectionFromPool,
+  getQuery,
+  getSearchColumnName,
+} from './utils.js';
 
 const debug: Debugger = Debug('supersave:db:sync');
 
@@ -13,6 +18,9 @@ enum MysqlType {
   LONGTEXT = 'longtext',
   VARCHAR = 'varchar(255)',
   INTEGER = 'int(11)',
+  DOUBLE = 'double',
+  DATE = 'date',
+  DATETIME = 'datetime(3)',
   BOOLEAN = 'tinyint(4)',
   JSON = 'json',
 }
@@ -27,7 +35,12 @@ type InformationSchemaColumn = {
 const filterSortFieldTypeMap = {
   string: MysqlType.VARCHAR,
   number: MysqlType.INTEGER,
+  float: MysqlType.DOUBLE,
   boolean: MysqlType.BOOLEAN,
+  date: MysqlType.DATE,
+  datetime: MysqlType.DATETIME,
+  // JSON columns cannot be indexed and MariaDB reports them as longtext, so the array is stored as longtext.
+  'string[]': MysqlType.LONGTEXT,
 };
 
 async function getContentsColumnType(
@@ -174,6 +187,19 @@ async function getTableColumns(
       return MysqlType.INTEGER;
     }
 
+    // Check for DATETIME and DATE types
+    if (matchesTypePattern(normalizedColumnType, 'datetime')) {
+      return MysqlType.DATETIME;
+    }
+    if (normalizedDataType === 'date') {
+      return MysqlType.DATE;
+    }
+
+    // Check for DOUBLE types (with optional precision)
+    if (matchesTypePattern(normalizedColumnType, 'double')) {
+      return MysqlType.DOUBLE;
+    }
+
     // Check for TINYINT types (with optional display width)
     if (matchesTypePattern(normalizedColumnType, 'tinyint')) {
       return MysqlType.BOOLEAN;
@@ -198,6 +224,9 @@ async function getTableColumns(
       dataTypeLower === 'text' ||
       dataTypeLower === 'longtext' ||
       matchesTypePattern(columnTypeLower, 'int') ||
+      matchesTypePattern(columnTypeLower, 'double') ||
+      matchesTypePattern(columnTypeLower, 'datetime') ||
+      dataTypeLower === 'date' ||
       matchesTypePattern(columnTypeLower, 'tinyint');
 
     if (!isRecognizedType) {
@@ -232,7 +261,7 @@ function mapFilterSortFieldsToColumns(
   const result: Record<string, MysqlType> = {};
   Object.entries(filterSortFields).forEach(
     ([fieldName, filter]: [string, FilterSortField]) => {
-      result[fieldName] = filterSortFieldTypeMap[filter];
+      result[getColumnName(fieldName)] = filterSortFieldTypeMap[filter];
     }
   );
   delete result.id; // We do not check the ID, since that is not a TEXT column.
@@ -287,15 +316,27 @@ async function getNonGeneratedColumns(
  * Validate and sanitize field name to prevent SQL injection and JSON path issues
  */
 function validateFieldName(fieldName: string): void {
-  // Enforce identifier regex: must start with letter or underscore, followed by letters, digits, or underscores
-  const identifierRegex = /^[A-Za-z_][A-Za-z0-9_]*$/;
+  // Enforce identifier regex for every segment of the (dotted) path: must start with letter or underscore,
+  // followed by letters, digits, or underscores
+  const identifierRegex = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
   if (!identifierRegex.test(fieldName)) {
     throw new Error(
-      `Invalid field name "${fieldName}". Field names must match /^[A-Za-z_][A-Za-z0-9_]*$/`
+      `Invalid field name "${fieldName}". Field names must match /^[A-Za-z_][A-Za-z0-9_]*(\\.[A-Za-z_][A-Za-z0-9_]*)*$/`
     );
   }
 }
 
+/**
+ * Create an expression that converts an ISO 8601 string to a DATETIME in UTC. CAST() ignores the offset of a
+ * value, so the offset is subtracted explicitly. Values that are not an ISO 8601 date result in NULL.
+ */
+function createDatetimeExpression(valueExpression: string): string {
+  const datetime = `REGEXP_SUBSTR(${valueExpression}, '^[0-9]{4}-[0-9]{2}-[0-9]{2}([T ][0-9]{2}:[0-9]{2}(:[0-9]{2}([.][0-9]+)?)?)?')`;
+  const offset = `REGEXP_SUBSTR(${valueExpression}, '[+-][0-9]{2}:?[0-9]{2}$')`;
+  const offsetMinutes = `IF(LEFT(${offset}, 1) = '-', -1, 1) * (SUBSTRING(${offset}, 2, 2) * 60 + RIGHT(${offset}, 2))`;
+  return `DATE_SUB(CAST(REPLACE(${datetime}, 'T', ' ') AS DATETIME(3)), INTERVAL COALESCE(${offsetMinutes}, 0) MINUTE)`;
+}
+
 /**
  * Create a generated column expression for a filterSortField
  */
@@ -339,6 +380,17 @@ function createGeneratedColumnExpression(
     END`;
   } else if (fieldType === 'number') {
     return `CAST(JSON_EXTRACT(contents, '${jsonPath}') AS SIGNED)`;
+  } else if (fieldType === 'float') {
+    return `CAST(JSON_EXTRACT(contents, '${jsonPath}') AS DOUBLE)`;
+  } else if (fieldType === 'date' || fieldType === 'datetime') {
+    // A number is epoch milliseconds, like in the filters of a query
+    const extractExpr = `JSON_EXTRACT(contents, '${jsonPath}')`;
+    const expression = `IF(JSON_TYPE(${extractExpr}) IN ('INTEGER', 'UNSIGNED INTEGER', 'DOUBLE', 'DECIMAL'),
+      TIMESTAMPADD(MICROSECOND, ROUND(CAST(${extractExpr} AS DOUBLE) * 1000), CAST('1970-01-01' AS DATETIME(3))),
+      ${createDatetimeExpression(`JSON_UNQUOTE(${extractExpr})`)})`;
+    return fieldType === 'date' ? `DATE(${expression})` : expression;
+  } else if (fieldType === 'string[]') {
+    return `JSON_EXTRACT(contents, '${jsonPath}')`;
   } else {
     // string
     // JSON_UNQUOTE returns NULL when JSON_EXTRACT returns JSON null or SQL NULL
@@ -447,10 +499,12 @@ async function migrateContentsColumn(
             );
             columns.push(
               `${pool.escapeId(
-                fieldName
+                getColumnName(fieldName)
               )} ${columnType} GENERATED ALWAYS AS (${expression}) STORED`
             );
-            indexes.push(fieldName);
+            if (filterSortFieldType !== 'string[]') {
+              indexes.push(fieldName);
+            }
           }
         }
       }
@@ -466,7 +520,7 @@ async function migrateContentsColumn(
         createQuery = `${createQuery}, ${indexes
           .map(
             (index) =>
-              `INDEX(${pool.escapeId(index)}${
+              `INDEX(${pool.escapeId(getColumnName(index))}${
                 (entity.filterSortFields as Record<string, FilterSortField>)?.[
                   index
                 ] === 'string'
@@ -486,7 +540,7 @@ async function migrateContentsColumn(
       // Use direct INSERT to avoid issues with generated columns
       // Only insert id and contents - generated columns will be computed automatically
       debug('Copying contents to new table with JSON validation.');
-      const oldAll = await repository.getAll();
+      const oldAll = await repository.getAll({ withDeleted: true });
       for (const element of oldAll) {
         const insertQuery = `INSERT INTO ${pool.escapeId(
           newTableName
@@ -542,19 +596,28 @@ export default async (
     const mysqlColumns = await getTableColumns(connection, tableName, entity);
     const newMysqlColumns: Record<string, MysqlType> =
       mapFilterSortFieldsToColumns(entity.filterSortFields);
+    // The text of the search fields is stored in generated columns that are part of the FULLTEXT index
+    const searchFields = entity.searchFields ?? [];
+    const searchColumnNames = searchFields.map(getSearchColumnName);
+    for (const searchColumnName of searchColumnNames) {
+      newMysqlColumns[searchColumnName] = MysqlType.LONGTEXT;
+    }
 
     // Check if columns need to be migrated to generated columns
     const filterSortFieldNames = Object.keys(entity.filterSortFields).filter(
       (name) => name !== 'id'
     );
+    const filterSortColumnNames = filterSortFieldNames.map(getColumnName);
     const nonGeneratedColumns = await getNonGeneratedColumns(
       connection,
       tableName,
-      filterSortFieldNames
+      filterSortColumnNames
     );
 
-    // Get expected and existing indexes
-    const expectedIndexColumns = filterSortFieldNames;
+    // Get expected and existing indexes, arrays are not indexed
+    const expectedIndexColumns = filterSortFieldNames
+      .filter((name) => entity.filterSortFields?.[name] !== 'string[]')
+      .map(getColumnName);
     const existingIndexes = await getTableIndexes(connection, tableName);
 
     // Check which indexes need to be added/removed
@@ -592,7 +655,8 @@ export default async (
         if (
           columnName !== 'id' &&
           columnName !== 'contents' &&
-          !expectedIndexColumns.includes(columnName)
+          !expectedIndexColumns.includes(columnName) &&
+          !searchColumnNames.includes(columnName)
         ) {
           indexesToRemove.push(indexName);
         }
@@ -624,8 +688,11 @@ export default async (
 
         // Add indexes
         for (const columnName of indexesToAdd) {
+          const fieldName = filterSortFieldNames.find(
+            (name) => getColumnName(name) === columnName
+          );
           const fieldType =
-            entity.filterSortFields[columnName as string] || 'string';
+            (fieldName && entity.filterSortFields[fieldName]) || 'string';
           const indexLength = fieldType === 'string' ? '(191)' : '';
           debug(`Adding index for column ${columnName}.`);
           await executeQuery(
@@ -664,10 +731,32 @@ export default async (
       );
       columns.push(
         `${pool.escapeId(
-          fieldName
+          getColumnName(fieldName)
         )} ${columnType} GENERATED ALWAYS AS (${expression}) STORED`
       );
-      indexes.push(fieldName);
+      if (filterSortFieldType !== 'string[]') {
+        indexes.push(fieldName);
+      }
+    }
+
+    if (searchFields.length > 0) {
+      for (const searchField of searchFields) {
+        const expression = createGeneratedColumnExpression(
+          searchField,
+          'string',
+          entity
+        );
+        columns.push(
+          `${pool.escapeId(
+            getSearchColumnName(searchField)
+          )} ${MysqlType.LONGTEXT} GENERATED ALWAYS AS (${expression}) STORED`
+        );
+      }
+      columns.push(
+        `FULLTEXT INDEX ${pool.escapeId('search')} (${searchColumnNames
+          .map((column) => pool.escapeId(column))
+          .join(',')})`
+      );
     }
 
     await executeQuery(
@@ -681,7 +770,7 @@ export default async (
       createQuery = `${createQuery}, ${indexes
         .map(
           (index) =>
-            `INDEX(${pool.escapeId(index)}${
+            `INDEX(${pool.escapeId(getColumnName(index))}${
               (entity.filterSortFields as Record<string, FilterSortField>)[
                 index
               ] === 'string'
@@ -702,7 +791,7 @@ export default async (
     // Use direct INSERT to avoid issues with generated columns
     // Only insert id and contents - generated columns will be computed automatically
     debug('Copying contents to new table.');
-    const oldAll = await repository.getAll();
+    const oldAll = await repository.getAll({ withDeleted: true });
     for (const element of oldAll) {
       const insertQuery = `INSERT INTO ${pool.escapeId(
         newTableName
@@ -0,0 +1,70 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { Pool } from 'mysql2/promise';
+import type { EntityDefinition } from '../../types.js';
+import {
+  getColumnName,
+  getUniqueFieldGroups,
+  getUniqueIndexName,
+  validateUniqueFields,
+} from '../utils.js';
+import { executeQuery, getQuery } from './utils.js';
+
+const debug: Debugger = Debug('supersave:db:mysql:unique');
+
+/**
+ * Creates a UNIQUE index on the generated columns for each of the `uniqueFields` of the entity, and drops the
+ * unique indexes that are no longer defined.
+ */
+export default async function syncUniqueIndexes(
+  entity: EntityDefinition,
+  tableName: string,
+  pool: Pool
+): Promise<void> {
+  validateUniqueFields(entity);
+
+  const expectedIndexes = new Map<string, string[]>(
+    getUniqueFieldGroups(entity).map((fields: string[]) => [
+      getUniqueIndexName(tableName, fields),
+      fields,
+    ])
+  );
+  const existingIndexes = (
+    await getQuery<{ INDEX_NAME: string }>(
+      pool,
+      `
+      SELECT DISTINCT INDEX_NAME
+      FROM INFORMATION_SCHEMA.STATISTICS
+      WHERE TABLE_SCHEMA = DATABASE()
+        AND TABLE_NAME = ?
+        AND NON_UNIQUE = 0
+        AND INDEX_NAME LIKE ?
+    `,
+      [tableName, `${tableName}\\_unique\\_%`]
+    )
+  ).map((index) => index.INDEX_NAME);
+
+  for (const indexName of existingIndexes) {
+    if (!expectedIndexes.has(indexName)) {
+      debug(`Dropping unique index ${indexName}.`);
+      await executeQuery(
+        pool,
+        `ALTER TABLE ${pool.escapeId(tableName)} DROP INDEX ${pool.escapeId(indexName)}`
+      );
+    }
+  }
+
+  for (const [indexName, fields] of expectedIndexes) {
+    if (!existingIndexes.includes(indexName)) {
+      debug(`Adding unique index ${indexName}.`);
+      await executeQuery(
+        pool,
+        `ALTER TABLE ${pool.escapeId(tableName)} ADD UNIQUE INDEX ${pool.escapeId(
+          indexName
+        )} (${fields
+          .map((field: string) => pool.escapeId(getColumnName(field)))
+          .join(',')})`
+      );
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import type { Debugger } from 'debug';
 import Debug from 'debug';
-import type { Pool, PoolConnection } from 'mysql2/promise';
+import type { Pool, PoolConnection, ResultSetHeader } from 'mysql2/promise';
+import { getColumnName } from '../utils.js';
 
 const debug: Debugger = Debug('supersave:db:em:mysql');
 
@@ -24,8 +25,54 @@ export async function executeQuery(
   await connection.query(query, values);
 }
 
+export async function executeUpdate(
+  connection: PoolConnection | Pool,
+  query: string,
+  values: (string | number | boolean | null)[] = []
+): Promise<number> {
+  debug('Executing update query', query);
+  const [result] = await connection.query<ResultSetHeader>(query, values);
+  return result.affectedRows;
+}
+
+/**
+ * Runs the callback within a transaction. When the connection is already bound to a
+ * transaction, it is reused and no new transaction is started.
+ */
+export async function withTransaction<R>(
+  connection: PoolConnection | Pool,
+  callback: (connection: PoolConnection) => Promise<R>
+): Promise<R> {
+  if (!('getConnection' in connection)) {
+    return callback(connection);
+  }
+
+  const poolConnection = await getConnectionFromPool(connection);
+  try {
+    await poolConnection.beginTransaction();
+    try {
+      const result = await callback(poolConnection);
+      await poolConnection.commit();
+      return result;
+    } catch (error) {
+      await poolConnection.rollback();
+      throw error;
+    }
+  } finally {
+    poolConnection.release();
+  }
+}
+
 export async function getConnectionFromPool(
   pool: Pool
 ): Promise<PoolConnection> {
   return await pool.getConnection();
 }
+
+/**
+ * Returns the name of the generated column that holds the text of a search field, these columns are
+ * part of the FULLTEXT index of the table.
+ */
+export function getSearchColumnName(field: string): string {
+  return `__search_${getColumnName(field)}`;
+}
@@ -0,0 +1,10 @@
+import type { Pool } from 'pg';
+import pg from 'pg';
+
+export type PostgresOptions = {
+  connection: string;
+};
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export default async (connectionString: string): Promise<Pool> =>
+  new pg.Pool({ connectionString });
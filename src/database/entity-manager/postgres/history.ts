@@ -0,0 +1,38 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { Pool } from 'pg';
+import type { EntityDefinition } from '../../types.js';
+import { escapeId, executeQuery, getIndexName } from './utils.js';
+
+const debug: Debugger = Debug('supersave:db:postgres:history');
+
+export function getHistoryTableName(tableName: string): string {
+  return `${tableName}_history`;
+}
+
+/**
+ * Creates the table in which the changes to an entity with history are recorded. The table is kept when the history
+ * is no longer enabled, so the recorded changes are not lost.
+ */
+export default async function syncHistory(
+  entity: EntityDefinition,
+  tableName: string,
+  pool: Pool
+): Promise<void> {
+  if (!entity.history) {
+    return;
+  }
+
+  const historyTableName = getHistoryTableName(tableName);
+  debug(`Creating history table ${historyTableName}.`);
+  await executeQuery(
+    pool,
+    `CREATE TABLE IF NOT EXISTS ${escapeId(historyTableName)} (id BIGSERIAL PRIMARY KEY, entity_id VARCHAR(32) NOT NULL, operation VARCHAR(16) NOT NULL, contents JSONB NOT NULL, recorded_at VARCHAR(24) NOT NULL, actor TEXT NULL)`
+  );
+  await executeQuery(
+    pool,
+    `CREATE INDEX IF NOT EXISTS ${escapeId(
+      getIndexName(`idx_${historyTableName}_entity_id`)
+    )} ON ${escapeId(historyTableName)} (entity_id, id)`
+  );
+}
@@ -0,0 +1,162 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { Pool, PoolClient } from 'pg';
+import slug from 'slug';
+import type {
+  BaseEntity,
+  EntityDefinition,
+  FilterSortField,
+} from '../../types.js';
+import EntityManager, {
+  type AddEntityOptions,
+  type Transaction,
+} from '../entity-manager.js';
+import type BaseRepository from '../repository.js';
+import { getManagedFields } from '../utils.js';
+import syncHistory from './history.js';
+import Repository from './repository.js';
+import sync from './sync.js';
+import syncUniqueIndexes from './unique.js';
+import { escapeId, executeQuery } from './utils.js';
+
+const debug: Debugger = Debug('supersave:db:em:postgres');
+
+class PostgresEntityManager extends EntityManager {
+  constructor(protected readonly pool: Pool) {
+    super();
+  }
+
+  public async addEntity<T extends BaseEntity>(
+    entity: EntityDefinition,
+    options: AddEntityOptions = {}
+  ): Promise<BaseRepository<T>> {
+    const filterSortFields: Record<string, FilterSortField> = {
+      ...(entity.filterSortFields ?? {}),
+      id: 'string',
+      ...getManagedFields(entity),
+    };
+
+    const updatedEntity: EntityDefinition = {
+      ...entity,
+      filterSortFields,
+    };
+
+    const fullEntityName = this.getFullEntityName(
+      entity.name,
+      entity.namespace
+    );
+    const tableName = slug(fullEntityName).replace(/-/g, '_'); // use the same table names as the other engines.
+    await this.createTable(tableName);
+
+    const repository: Repository<T> = new Repository(
+      updatedEntity,
+      tableName,
+      (name: string, namespace?: string) => this.getRepository(name, namespace),
+      () => this.getDefinitions(),
+      this.pool
+    );
+
+    if (!options.skipSync) {
+      await sync(updatedEntity, tableName, this.pool);
+      await syncUniqueIndexes(updatedEntity, tableName, this.pool);
+      await syncHistory(updatedEntity, tableName, this.pool);
+    }
+
+    this.repositories.set(fullEntityName, repository);
+    this.definitions.set(fullEntityName, updatedEntity);
+    return this.getRepository(entity.name, entity.namespace);
+  }
+
+  public getEngineType(): 'mysql' | 'sqlite' | 'postgres' | 'memory' {
+    return 'postgres';
+  }
+
+  /**
+   * Pins a single client from the pool for the duration of the transaction. Nested
+   * transactions are implemented using savepoints on that same client.
+   */
+  public async transaction<R>(
+    callback: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    const client = await this.pool.connect();
+    try {
+      debug('Starting transaction.');
+      await executeQuery(client, 'BEGIN');
+      try {
+        const result = await callback(this.createTransaction(client));
+        await executeQuery(client, 'COMMIT');
+        debug('Committed transaction.');
+        return result;
+      } catch (error) {
+        debug('Rolling back transaction.');
+        await executeQuery(client, 'ROLLBACK');
+        throw error;
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private createTransaction(client: PoolClient): Transaction {
+    const repositories = new Map<string, Repository<any>>();
+    let savepointCount = 0;
+
+    const transaction: Transaction = {
+      getRepository: <T extends BaseEntity>(
+        name: string,
+        namespace?: string
+      ): Repository<T> => {
+        const fullEntityName = this.getFullEntityName(name, namespace);
+        const existing = repositories.get(fullEntityName);
+        if (existing) {
+          return existing as Repository<T>;
+        }
+
+        const repository = (
+          this.getRepository<T>(name, namespace) as Repository<T>
+        ).withConnection(
+          client,
+          (relationName: string, relationNamespace?: string) =>
+            transaction.getRepository(relationName, relationNamespace)
+        );
+        repositories.set(fullEntityName, repository);
+        return repository;
+      },
+      transaction: async <R>(
+        nestedCallback: (transaction: Transaction) => Promise<R>
+      ): Promise<R> => {
+        savepointCount += 1;
+        const savepoint = escapeId(`supersave_${savepointCount}`);
+        await executeQuery(client, `SAVEPOINT ${savepoint}`);
+        try {
+          const result = await nestedCallback(transaction);
+          await executeQuery(client, `RELEASE SAVEPOINT ${savepoint}`);
+          return result;
+        } catch (error) {
+          await executeQuery(client, `ROLLBACK TO SAVEPOINT ${savepoint}`);
+          throw error;
+        }
+      },
+    };
+    return transaction;
+  }
+
+  protected createTable(tableName: string): Promise<void> {
+    debug(`Creating table ${tableName}.`);
+
+    return executeQuery(
+      this.pool,
+      `CREATE TABLE IF NOT EXISTS ${escapeId(tableName)} (id VARCHAR(32) PRIMARY KEY, contents JSONB NOT NULL)`
+    );
+  }
+
+  public async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  public getConnection(): Pool {
+    return this.pool;
+  }
+}
+
+export default PostgresEntityManager;
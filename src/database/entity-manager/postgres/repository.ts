@@ -0,0 +1,650 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { Pool, PoolClient } from 'pg';
+import shortUuid from 'short-uuid';
+
+const { generate } = shortUuid;
+
+import type {
+  BaseEntity,
+  EntityDefinition,
+  EntityRow,
+  ExpandOptions,
+  HistoryRow,
+  QueryCondition,
+  QueryCursor,
+  QueryFilter,
+  QuerySort,
+  Relation,
+  WriteOptions,
+} from '../../types.js';
+import { QueryOperatorEnum } from '../../types.js';
+import type Query from '../query.js';
+import BaseRepository from '../repository.js';
+import {
+  DELETED_AT_FIELD,
+  getColumnName,
+  getUniqueFieldGroups,
+  getUniqueIndexName,
+  VERSION_FIELD,
+} from '../utils.js';
+import { getHistoryTableName } from './history.js';
+import {
+  escapeId,
+  escapeLiteral,
+  executeQuery,
+  executeUpdate,
+  getFieldPath,
+  getIndexName,
+  getQuery,
+  type QueryValue,
+  SEARCH_COLUMN,
+  withTransaction,
+} from './utils.js';
+
+const debug: Debugger = Debug('supersave:db:postgres:repo');
+
+// The maximum number of rows inserted using a single multi-row INSERT statement.
+const BATCH_SIZE = 500;
+
+class Repository<T extends BaseEntity> extends BaseRepository<T> {
+  constructor(
+    protected readonly definition: EntityDefinition,
+    protected readonly tableName: string,
+    protected readonly getRepository: (
+      name: string,
+      namespace?: string
+    ) => BaseRepository<any>,
+    protected readonly getDefinitions: () => EntityDefinition[],
+    protected readonly connection: Pool | PoolClient
+  ) {
+    super(definition, tableName, getRepository, getDefinitions);
+  }
+
+  /**
+   * Returns a copy of this repository that runs its queries on the provided connection,
+   * used to bind the repository to a transaction.
+   */
+  public withConnection(
+    connection: PoolClient,
+    getRepository: (name: string, namespace?: string) => BaseRepository<any>
+  ): Repository<T> {
+    return new Repository<T>(
+      this.definition,
+      this.tableName,
+      getRepository,
+      this.getDefinitions,
+      connection
+    );
+  }
+
+  /**
+   * Runs the callback on a copy of this repository that is bound to a transaction, the repositories of the related
+   * entities it retrieves are bound to the same transaction.
+   */
+  protected runInTransaction<R>(
+    callback: (repository: this) => Promise<R>
+  ): Promise<R> {
+    return withTransaction(this.connection, (connection: PoolClient) => {
+      const getRepository = (
+        name: string,
+        namespace?: string
+      ): BaseRepository<any> =>
+        (this.getRepository(name, namespace) as Repository<any>).withConnection(
+          connection,
+          getRepository
+        );
+      return callback(this.withConnection(connection, getRepository) as this);
+    });
+  }
+
+  /**
+   * Adds the value to the values of a query, returning its placeholder.
+   */
+  protected addValue(values: QueryValue[], value: QueryValue): string {
+    values.push(value);
+    return `$${values.length}`;
+  }
+
+  protected async queryRowsByIds(ids: string[]): Promise<EntityRow[]> {
+    const query = `SELECT id,contents FROM ${escapeId(this.tableName)} WHERE id = ANY($1)`;
+    return await getQuery<EntityRow>(this.connection, query, [ids]);
+  }
+
+  /**
+   * Generates the WHERE clause for the filters of the query, adding the values for its placeholders to the provided
+   * values.
+   */
+  protected getWhereClause(
+    query: Query,
+    values: QueryValue[],
+    includeCursor = false
+  ): string {
+    const where: string[] = [];
+
+    query.getWhere().forEach((condition: QueryCondition) => {
+      const clause = this.getConditionClause(condition, values);
+      if (clause !== '') {
+        where.push(clause);
+      }
+    });
+
+    const search = query.getSearch();
+    if (search) {
+      where.push(
+        `${escapeId(SEARCH_COLUMN)} @@ ${this.getSearchQuery(values, search)}`
+      );
+    }
+
+    const cursor = query.getAfter();
+    if (includeCursor && cursor) {
+      where.push(this.getCursorCondition(query.getSort(), cursor, values));
+    }
+
+    return where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+  }
+
+  /**
+   * Generates the text search query for the search term, a row matches when it contains all words.
+   */
+  protected getSearchQuery(values: QueryValue[], search: string): string {
+    return `plainto_tsquery('simple', ${this.addValue(values, search)})`;
+  }
+
+  /**
+   * Generates the condition for a single filter or a group of filters, adding the values for its
+   * placeholders to the provided values.
+   */
+  protected getConditionClause(
+    condition: QueryCondition,
+    values: QueryValue[]
+  ): string {
+    if ('filters' in condition) {
+      const clauses = condition.filters
+        .map((filter: QueryCondition) =>
+          this.getConditionClause(filter, values)
+        )
+        .filter((clause: string) => clause !== '');
+      if (clauses.length === 0) {
+        return '';
+      }
+      if (condition.operator === 'NOT') {
+        return `NOT (${clauses.join(' AND ')})`;
+      }
+      return `(${clauses.join(` ${condition.operator} `)})`;
+    }
+
+    const queryFilter: QueryFilter = condition;
+    const column = escapeId(getColumnName(queryFilter.field));
+    if (queryFilter.operator === QueryOperatorEnum.IN) {
+      const placeholders = queryFilter.value.map((value: string) =>
+        this.addValue(values, this.getFilterValue(queryFilter.field, value))
+      );
+      return `${column} IN (${placeholders.join(',')})`;
+    }
+    if (
+      queryFilter.operator === QueryOperatorEnum.CONTAINS ||
+      queryFilter.operator === QueryOperatorEnum.CONTAINS_ANY
+    ) {
+      // The items are read from the contents, which also works for relations that are stored comma-separated in their column.
+      const items: (string | number)[] =
+        queryFilter.operator === QueryOperatorEnum.CONTAINS
+          ? [queryFilter.value]
+          : queryFilter.value;
+      const conditions = items.map(
+        (item: string | number) =>
+          `contents #> ${this.addValue(values, getFieldPath(queryFilter.field))} @> ${this.addValue(
+            values,
+            JSON.stringify([item])
+          )}::jsonb`
+      );
+      return conditions.length > 0 ? `(${conditions.join(' OR ')})` : 'false';
+    }
+    if (
+      queryFilter.operator === QueryOperatorEnum.EQUALS &&
+      (queryFilter.value === null || queryFilter.value === undefined)
+    ) {
+      // Handle null comparison - use IS NULL instead of = NULL
+      return `${column} IS NULL`;
+    }
+    if (queryFilter.operator === QueryOperatorEnum.LIKE) {
+      // Like the other engines, LIKE is case-insensitive.
+      return `${column} ILIKE ${this.addValue(
+        values,
+        `${queryFilter.value}`.replace(/\*/g, '%')
+      )}`;
+    }
+    return `${column} ${queryFilter.operator} ${this.addValue(
+      values,
+      this.getFilterValue(queryFilter.field, queryFilter.value)
+    )}`;
+  }
+
+  /**
+   * Converts the value of a filter to the type of the column, booleans are stored as boolean.
+   */
+  protected getFilterValue(field: string, value: any): QueryValue {
+    if (this.definition.filterSortFields?.[field] === 'boolean') {
+      return ['1', 1, 'true', true].includes(value);
+    }
+    return value;
+  }
+
+  /**
+   * Returns the expression that is sorted on. Text is sorted case-insensitive, as the other engines do.
+   */
+  protected getSortExpression(field: string): string {
+    const column = escapeId(getColumnName(field));
+    return this.isCaseInsensitive(field) ? `lower(${column})` : column;
+  }
+
+  /**
+   * Text is sorted case-insensitive, except for the id.
+   */
+  protected isCaseInsensitive(field: string): boolean {
+    return (
+      field !== 'id' && this.definition.filterSortFields?.[field] === 'string'
+    );
+  }
+
+  /**
+   * Generates the condition that matches the rows positioned after the cursor. The rows are ordered by
+   * the sort fields, followed by the id as tiebreaker. NULL values are ordered first, as the other engines do.
+   */
+  protected getCursorCondition(
+    sorts: QuerySort[],
+    cursor: QueryCursor,
+    values: QueryValue[]
+  ): string {
+    if (cursor.values.length !== sorts.length) {
+      throw new TypeError('The cursor does not match the sort of the query.');
+    }
+
+    const conditions: string[] = [];
+    // A placeholder can be used multiple times, so the value of each sort field is added once.
+    const equals: string[] = [];
+
+    sorts.forEach((sort: QuerySort, index: number) => {
+      const expression = this.getSortExpression(sort.field);
+      const value = cursor.values[index];
+
+      if (value === null) {
+        // Only non-null values follow a null value in ascending order, nothing follows it in descending order.
+        if (sort.direction === 'asc') {
+          conditions.push(
+            `(${[...equals, `${expression} IS NOT NULL`].join(' AND ')})`
+          );
+        }
+        equals.push(`${expression} IS NULL`);
+      } else {
+        let placeholder = this.addValue(
+          values,
+          this.getFilterValue(sort.field, value)
+        );
+        if (this.isCaseInsensitive(sort.field)) {
+          placeholder = `lower(${placeholder})`;
+        }
+        const after =
+          sort.direction === 'asc'
+            ? `${expression} > ${placeholder}`
+            : `(${expression} < ${placeholder} OR ${expression} IS NULL)`;
+        conditions.push(`(${[...equals, after].join(' AND ')})`);
+        equals.push(`${expression} = ${placeholder}`);
+      }
+    });
+
+    conditions.push(
+      `(${[...equals, `id > ${this.addValue(values, cursor.id)}`].join(' AND ')})`
+    );
+
+    return `(${conditions.join(' OR ')})`;
+  }
+
+  public async getByQuery(
+    query: Query,
+    options: ExpandOptions = {}
+  ): Promise<T[]> {
+    const values: QueryValue[] = [];
+    const where = this.getWhereClause(query, values, true);
+
+    let sqlQuery = `SELECT id,contents FROM ${escapeId(this.tableName)}
+      ${where}
+    `;
+    const sorts = query
+      .getSort()
+      .map(
+        (sort: QuerySort) =>
+          `${this.getSortExpression(sort.field)} ${sort.direction} ${
+            sort.direction === 'asc' ? 'NULLS FIRST' : 'NULLS LAST'
+          }`
+      );
+    // Without a sort, search results are ordered by relevance.
+    const search = query.getSearch();
+    if (search && sorts.length === 0 && !query.getAfter()) {
+      sorts.push(
+        `ts_rank(${escapeId(SEARCH_COLUMN)}, ${this.getSearchQuery(values, search)}) DESC`
+      );
+    }
+    if (sorts.length > 0 || query.getAfter()) {
+      // The id makes the order deterministic, which is required for paginating using a cursor.
+      sorts.push('id asc');
+    }
+    if (sorts.length > 0) {
+      sqlQuery = `${sqlQuery} ORDER BY ${sorts.join(',')}`;
+    }
+    if (query.getLimit()) {
+      sqlQuery = `${sqlQuery} LIMIT ${query.getLimit()}`;
+      if (typeof query.getOffset() !== 'undefined' && !query.getAfter()) {
+        sqlQuery = `${sqlQuery} OFFSET ${query.getOffset()}`;
+      }
+    }
+
+    debug('Querying data using query.', sqlQuery);
+    const result = await getQuery<EntityRow>(this.connection, sqlQuery, values);
+    debug('Found result count', result.length);
+    if (result) {
+      return await this.transformQueryResultRows(result, options);
+    }
+    return [];
+  }
+
+  public async count(query: Query): Promise<number> {
+    const values: QueryValue[] = [];
+    const where = this.getWhereClause(query, values);
+    const sqlQuery = `SELECT COUNT(*) AS total FROM ${escapeId(this.tableName)} ${where}`;
+    debug('Counting using query.', sqlQuery, values);
+    const result = await getQuery<{ total: number | string }>(
+      this.connection,
+      sqlQuery,
+      values
+    );
+    return Number(result[0].total);
+  }
+
+  protected async deleteRowUsingId(id: string): Promise<void> {
+    const query = `DELETE FROM ${escapeId(this.tableName)} WHERE id = $1`;
+    await executeQuery(this.connection, query, [id]);
+  }
+
+  protected async getReferringRows(
+    relation: Relation,
+    ids: string[]
+  ): Promise<EntityRow[]> {
+    // The relation is stored as the id, or an array of ids, of the related entities.
+    let where = '(contents #>> $1) = ANY($2)';
+    let values: QueryValue[] = [getFieldPath(relation.field), ids];
+    if (relation.multiple) {
+      where = '(contents #> $1) ?| $2';
+    } else if (this.definition.filterSortFields?.[relation.field]) {
+      // Use the indexed column of the relation.
+      where = `${escapeId(getColumnName(relation.field))} = ANY($1)`;
+      values = [ids];
+    }
+
+    const query = `SELECT id,contents FROM ${escapeId(this.tableName)} WHERE ${where}`;
+    debug('Query for referring rows.', query, values);
+    return await getQuery<EntityRow>(this.connection, query, values);
+  }
+
+  protected async queryRowsByQuery(query: Query): Promise<EntityRow[]> {
+    const values: QueryValue[] = [];
+    const where = this.getWhereClause(query, values);
+    const sqlQuery = `SELECT id,contents FROM ${escapeId(this.tableName)} ${where}`;
+    debug('Query for rows by query.', sqlQuery, values);
+    return await getQuery<EntityRow>(this.connection, sqlQuery, values);
+  }
+
+  protected async deleteRowsByQuery(query: Query): Promise<number> {
+    const values: QueryValue[] = [];
+    const where = this.getWhereClause(query, values);
+    const sqlQuery = `DELETE FROM ${escapeId(this.tableName)} ${where}`;
+    debug('Generated delete query.', sqlQuery, values);
+    return await executeUpdate(this.connection, sqlQuery, values);
+  }
+
+  protected async setDeletedAt(
+    query: Query,
+    deletedAt: string | null
+  ): Promise<number> {
+    const values: QueryValue[] = [];
+    let contents =
+      deletedAt === null
+        ? `contents - ${escapeLiteral(DELETED_AT_FIELD)}`
+        : `jsonb_set(contents, ${escapeLiteral(`{${DELETED_AT_FIELD}}`)}, to_jsonb(${this.addValue(values, deletedAt)}::text))`;
+    if (this.definition.versioning) {
+      contents = `jsonb_set(${contents}, ${escapeLiteral(`{${VERSION_FIELD}}`)}, to_jsonb(COALESCE(${escapeId(VERSION_FIELD)}, 0) + 1))`;
+    }
+    const where = this.getWhereClause(query, values);
+    const sqlQuery = `UPDATE ${escapeId(this.tableName)} SET contents = ${contents} ${where}`;
+    debug('Generated soft delete query.', sqlQuery, values);
+    return await executeUpdate(this.connection, sqlQuery, values);
+  }
+
+  protected getCreateRow(object: Omit<T, 'id'>): EntityRow {
+    return {
+      id: typeof object.id === 'string' ? (object.id as string) : generate(),
+      contents: JSON.stringify(
+        this.validate(
+          this.setManagedFields(
+            {
+              ...this.definition.template,
+              ...this.simplifyRelations(object),
+            },
+            true
+          )
+        )
+      ),
+    };
+  }
+
+  /**
+   * Converts the violation of a unique index or the primary key to a UniqueConstraintError, other errors are
+   * returned as is.
+   */
+  protected convertError(error: unknown): unknown {
+    if ((error as { code?: string })?.code !== '23505') {
+      return error;
+    }
+
+    const indexName = (error as { constraint?: string }).constraint;
+    const fields =
+      indexName === `${this.tableName}_pkey`
+        ? ['id']
+        : (getUniqueFieldGroups(this.definition).find(
+            (group: string[]) =>
+              getIndexName(getUniqueIndexName(this.tableName, group)) ===
+              indexName
+          ) ?? []);
+    return this.createUniqueConstraintError(fields);
+  }
+
+  public create(object: Omit<T, 'id'>, options: WriteOptions = {}): Promise<T> {
+    return this.runInTransaction(async (repository) => {
+      const row = repository.getCreateRow(object);
+
+      const query = `INSERT INTO ${escapeId(this.tableName)} (id, contents) VALUES ($1, $2)`;
+      debug('Generated create query.', query, row);
+
+      try {
+        await executeQuery(repository.connection, query, [
+          row.id,
+          row.contents,
+        ]);
+      } catch (error) {
+        throw repository.convertError(error);
+      }
+      await repository.recordHistory('create', [row], options);
+
+      return (await repository.getById(row.id)) as unknown as T;
+    });
+  }
+
+  public createMany(
+    objects: Omit<T, 'id'>[],
+    options: WriteOptions = {}
+  ): Promise<T[]> {
+    return this.runInTransaction(async (repository) => {
+      const rows = objects.map((object) => repository.getCreateRow(object));
+
+      try {
+        for (let iter = 0; iter < rows.length; iter += BATCH_SIZE) {
+          const batch = rows.slice(iter, iter + BATCH_SIZE);
+          const query = `INSERT INTO ${escapeId(
+            this.tableName
+          )} (id, contents) VALUES ${batch
+            .map((_row, index) => `($${index * 2 + 1}, $${index * 2 + 2})`)
+            .join(',')}`;
+          debug('Generated multi-row create query.', query, batch.length);
+          await executeQuery(
+            repository.connection,
+            query,
+            batch.flatMap((row) => [row.id, row.contents])
+          );
+        }
+      } catch (error) {
+        throw repository.convertError(error);
+      }
+      await repository.recordHistory('create', rows, options);
+
+      // The inserted rows contain everything that is needed to construct the entities, no need to query them again.
+      return await repository.transformQueryResultRows(rows);
+    });
+  }
+
+  protected getUpdateRow(object: T): EntityRow {
+    const simplifiedObject: any = this.validate(
+      this.setManagedFields(this.simplifyRelations(object) as BaseEntity, false)
+    );
+    delete simplifiedObject.id; // the id is already stored as a column
+
+    return {
+      id: object.id || '',
+      contents: JSON.stringify(simplifiedObject),
+    };
+  }
+
+  /**
+   * Updates the contents of a row, returns false when there is no row with the id. For an entity with versioning the
+   * row is only updated when it still has the version the entity was read with, a ConflictError is thrown otherwise.
+   */
+  protected async runUpdate(row: EntityRow, object: T): Promise<boolean> {
+    const query = `UPDATE ${escapeId(this.tableName)} SET contents = $1 WHERE id = $2`;
+    if (!this.definition.versioning) {
+      debug('Generated update query.', query);
+      return (
+        (await executeUpdate(this.connection, query, [row.contents, row.id])) >
+        0
+      );
+    }
+
+    const versionQuery = `${query} AND ${escapeId(VERSION_FIELD)} IS NOT DISTINCT FROM $3`;
+    debug('Generated update query.', versionQuery);
+    const updated = await executeUpdate(this.connection, versionQuery, [
+      row.contents,
+      row.id,
+      this.getReadVersion(object),
+    ]);
+    if (updated === 0) {
+      await this.checkConflict(row.id);
+      return false;
+    }
+    return true;
+  }
+
+  public update(object: T, options: WriteOptions = {}): Promise<T> {
+    return this.runInTransaction(async (repository) => {
+      const [kept] = await repository.keepStoredFields([object]);
+      const row = repository.getUpdateRow(kept);
+
+      let updated: boolean;
+      try {
+        updated = await repository.runUpdate(row, object);
+      } catch (error) {
+        throw repository.convertError(error);
+      }
+      if (updated) {
+        await repository.recordHistory('update', [row], options);
+      }
+      return (await repository.queryById(object.id as string)) as unknown as T;
+    });
+  }
+
+  public updateMany(objects: T[], options: WriteOptions = {}): Promise<T[]> {
+    return this.runInTransaction(async (repository) => {
+      const rows = (await repository.keepStoredFields(objects)).map((object) =>
+        repository.getUpdateRow(object)
+      );
+
+      const updatedRows: EntityRow[] = [];
+      try {
+        debug('Updating multiple rows.', rows.length);
+        for (const [index, row] of rows.entries()) {
+          if (await repository.runUpdate(row, objects[index])) {
+            updatedRows.push(row);
+          }
+        }
+      } catch (error) {
+        throw repository.convertError(error);
+      }
+      await repository.recordHistory('update', updatedRows, options);
+
+      return await repository.queryUpdatedEntities(
+        updatedRows.map((row: EntityRow) => row.id)
+      );
+    });
+  }
+
+  protected async insertHistoryRows(rows: HistoryRow[]): Promise<void> {
+    const query = `INSERT INTO ${escapeId(
+      getHistoryTableName(this.tableName)
+    )} (entity_id, operation, contents, recorded_at, actor) VALUES ${rows
+      .map(
+        (_row, index) =>
+          `(${[1, 2, 3, 4, 5].map((column) => `$${index * 5 + column}`).join(', ')})`
+      )
+      .join(',')}`;
+    debug('Inserting history rows.', query, rows.length);
+    await executeQuery(
+      this.connection,
+      query,
+      rows.flatMap((row) => [
+        row.entityId,
+        row.operation,
+        row.contents as string,
+        row.recordedAt,
+        row.actor,
+      ])
+    );
+  }
+
+  protected async queryHistoryRows(
+    id: string,
+    until?: string
+  ): Promise<HistoryRow[]> {
+    const query = `SELECT entity_id AS "entityId", operation, contents, recorded_at AS "recordedAt", actor FROM ${escapeId(
+      getHistoryTableName(this.tableName)
+    )} WHERE entity_id = $1${typeof until === 'undefined' ? '' : ' AND recorded_at <= $2'} ORDER BY id`;
+    debug('Query for history rows.', query, id);
+    return await getQuery<HistoryRow>(
+      this.connection,
+      query,
+      typeof until === 'undefined' ? [id] : [id, until]
+    );
+  }
+
+  protected async queryById(
+    id: string,
+    options: ExpandOptions = {}
+  ): Promise<T | null> {
+    const query = `SELECT id,contents FROM ${escapeId(this.tableName)} WHERE id = $1 LIMIT 1`;
+    debug('Query for getById', query, id);
+    const result = await getQuery<EntityRow>(this.connection, query, [id]);
+    if (result.length > 0) {
+      return this.transformQueryResultRow(result[0], options);
+    }
+    debug('No result for queryById().');
+    return null;
+  }
+}
+
+export default Repository;
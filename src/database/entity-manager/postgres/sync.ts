@@ -0,0 +1,287 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { Pool, PoolClient } from 'pg';
+import type { EntityDefinition, FilterSortField } from '../../types.js';
+import { getColumnName } from '../utils.js';
+import {
+  escapeId,
+  escapeLiteral,
+  executeQuery,
+  getIndexName,
+  getQuery,
+  SEARCH_COLUMN,
+  withTransaction,
+} from './utils.js';
+
+const debug: Debugger = Debug('supersave:db:postgres:sync');
+
+enum PostgresType {
+  TEXT = 'text',
+  BIGINT = 'bigint',
+  DOUBLE = 'double precision',
+  BOOLEAN = 'boolean',
+  DATE = 'date',
+  TIMESTAMP = 'timestamp(3)',
+  JSONB = 'jsonb',
+  TSVECTOR = 'tsvector',
+}
+
+const filterSortFieldTypeMap = {
+  string: PostgresType.TEXT,
+  number: PostgresType.BIGINT,
+  float: PostgresType.DOUBLE,
+  boolean: PostgresType.BOOLEAN,
+  date: PostgresType.DATE,
+  datetime: PostgresType.TIMESTAMP,
+  'string[]': PostgresType.JSONB,
+};
+
+type ExpectedColumn = {
+  definition: string;
+  index: 'btree' | 'gin' | null;
+  // Text is sorted case-insensitive, using the lowercase value of the column.
+  lowercaseIndex: boolean;
+};
+
+/**
+ * Converts an ISO 8601 string to a timestamp in UTC, a value without an offset is read as UTC. Values that are not a
+ * date result in NULL. Casting text to a timestamp is not immutable, because it can depend on the time zone of the
+ * session, which is why the conversion is wrapped in a function that can be used in a generated column.
+ */
+const TIMESTAMP_FUNCTION = `CREATE OR REPLACE FUNCTION supersave_timestamp(value text) RETURNS timestamp AS $$
+BEGIN
+  IF value ~ '[T ][0-9]{2}:' AND value ~ '(Z|[+-][0-9]{2}(:?[0-9]{2})?)$' THEN
+    RETURN value::timestamptz AT TIME ZONE 'UTC';
+  END IF;
+  RETURN value::timestamp;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE`;
+
+/**
+ * Validate the field name, it is used in the expressions of the generated columns.
+ */
+function validateFieldName(fieldName: string): void {
+  const identifierRegex = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+  if (!identifierRegex.test(fieldName)) {
+    throw new Error(
+      `Invalid field name "${fieldName}". Field names must match /^[A-Za-z_][A-Za-z0-9_]*(\\.[A-Za-z_][A-Za-z0-9_]*)*$/`
+    );
+  }
+}
+
+/**
+ * Create a generated column expression for a filterSortField
+ */
+function createGeneratedColumnExpression(
+  fieldName: string,
+  fieldType: FilterSortField,
+  entity: EntityDefinition
+): string {
+  validateFieldName(fieldName);
+
+  const path = `'{${fieldName.split('.').join(',')}}'`;
+  const text = `(contents #>> ${path})`;
+  const relation = entity.relations?.find((rel) => rel.field === fieldName);
+
+  if (relation?.multiple) {
+    // The array of ids, like ["id1", "id2"], is stored comma-separated as id1,id2
+    return `translate((contents #> ${path})::text, '[]" ', '')`;
+  } else if (relation) {
+    return text;
+  } else if (fieldType === 'boolean') {
+    return `CASE WHEN lower(${text}) IN ('true', '1') THEN true WHEN lower(${text}) IN ('false', '0') THEN false END`;
+  } else if (fieldType === 'number') {
+    return `CASE WHEN jsonb_typeof(contents #> ${path}) = 'number' THEN trunc(${text}::numeric)::bigint END`;
+  } else if (fieldType === 'float') {
+    return `CASE WHEN jsonb_typeof(contents #> ${path}) = 'number' THEN ${text}::double precision END`;
+  } else if (fieldType === 'date' || fieldType === 'datetime') {
+    // A number is epoch milliseconds, like in the filters of a query
+    const timestamp = `CASE WHEN jsonb_typeof(contents #> ${path}) = 'number' THEN to_timestamp(${text}::double precision / 1000) AT TIME ZONE 'UTC' ELSE supersave_timestamp(${text}) END`;
+    return fieldType === 'date' ? `(${timestamp})::date` : timestamp;
+  } else if (fieldType === 'string[]') {
+    // Filtering on the items of the array is done using the contents
+    return `(contents #> ${path})`;
+  }
+  return text;
+}
+
+/**
+ * Returns the generated columns of the entity, by their name.
+ */
+function getExpectedColumns(
+  entity: EntityDefinition
+): Map<string, ExpectedColumn> {
+  const columns = new Map<string, ExpectedColumn>();
+
+  for (const [fieldName, fieldType] of Object.entries(
+    entity.filterSortFields ?? {}
+  )) {
+    if (fieldName === 'id') {
+      continue;
+    }
+    const columnType = filterSortFieldTypeMap[fieldType];
+    if (typeof columnType === 'undefined') {
+      throw new TypeError(`Unrecognized field type ${fieldType}.`);
+    }
+
+    const expression = createGeneratedColumnExpression(
+      fieldName,
+      fieldType,
+      entity
+    );
+    columns.set(getColumnName(fieldName), {
+      definition: `${columnType} GENERATED ALWAYS AS (${expression}) STORED`,
+      index: fieldType === 'string[]' ? null : 'btree',
+      lowercaseIndex: fieldType === 'string',
+    });
+  }
+
+  const searchFields = entity.searchFields ?? [];
+  if (searchFields.length > 0) {
+    for (const searchField of searchFields) {
+      validateFieldName(searchField);
+    }
+    // The concatenation of text is immutable, as opposed to concat_ws().
+    const text = searchFields
+      .map(
+        (field: string) =>
+          `coalesce(contents #>> '{${field.split('.').join(',')}}', '')`
+      )
+      .join(` || ' ' || `);
+    columns.set(SEARCH_COLUMN, {
+      definition: `${PostgresType.TSVECTOR} GENERATED ALWAYS AS (to_tsvector('simple', ${text})) STORED`,
+      index: 'gin',
+      lowercaseIndex: false,
+    });
+  }
+  return columns;
+}
+
+/**
+ * Returns the columns of the table, with the definition they were created with. The definition is stored as the
+ * comment of the column, as Postgres does not return the expression of a generated column as it was provided.
+ */
+async function getTableColumns(
+  connection: PoolClient,
+  tableName: string
+): Promise<Map<string, string | null>> {
+  const columns = await getQuery<{
+    column_name: string;
+    description: string | null;
+  }>(
+    connection,
+    `
+    SELECT column_name, col_description(format('%I.%I', table_schema, table_name)::regclass, ordinal_position) AS description
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = $1
+  `,
+    [tableName]
+  );
+
+  return new Map(
+    columns
+      .filter((column) => !['id', 'contents'].includes(column.column_name))
+      .map((column) => [column.column_name, column.description])
+  );
+}
+
+/**
+ * Adds a generated column for every filterSortField and the search fields, and drops the columns that are no longer
+ * defined. A column of which the definition changed is dropped and added again. Postgres computes the values of an
+ * added generated column, so the table does not have to be recreated.
+ */
+async function syncColumns(
+  connection: PoolClient,
+  tableName: string,
+  expectedColumns: Map<string, ExpectedColumn>
+): Promise<void> {
+  const existingColumns = await getTableColumns(connection, tableName);
+
+  const columnsToDrop = [...existingColumns.entries()]
+    .filter(
+      ([name, description]) =>
+        expectedColumns.get(name)?.definition !== description
+    )
+    .map(([name]) => name);
+  const columnsToAdd = [...expectedColumns.keys()].filter(
+    (name: string) => !existingColumns.has(name) || columnsToDrop.includes(name)
+  );
+  if (columnsToDrop.length === 0 && columnsToAdd.length === 0) {
+    debug('Columns have not changed, not making changes.');
+    return;
+  }
+
+  for (const name of columnsToDrop) {
+    debug(`Dropping column ${name}.`);
+    // The indexes on the column are dropped with it.
+    await executeQuery(
+      connection,
+      `ALTER TABLE ${escapeId(tableName)} DROP COLUMN ${escapeId(name)}`
+    );
+  }
+
+  if (
+    columnsToAdd.some((name: string) =>
+      expectedColumns.get(name)?.definition.includes('supersave_timestamp')
+    )
+  ) {
+    await executeQuery(connection, TIMESTAMP_FUNCTION);
+  }
+
+  for (const name of columnsToAdd) {
+    const column = expectedColumns.get(name) as ExpectedColumn;
+    debug(`Adding column ${name}.`, column.definition);
+    await executeQuery(
+      connection,
+      `ALTER TABLE ${escapeId(tableName)} ADD COLUMN ${escapeId(name)} ${column.definition}`
+    );
+    await executeQuery(
+      connection,
+      `COMMENT ON COLUMN ${escapeId(tableName)}.${escapeId(name)} IS ${escapeLiteral(column.definition)}`
+    );
+    if (column.index !== null) {
+      await executeQuery(
+        connection,
+        `CREATE INDEX ON ${escapeId(tableName)} USING ${column.index} (${escapeId(name)})`
+      );
+    }
+  }
+}
+
+/**
+ * Creates the indexes on the lowercase value of the text columns, used when sorting. They are created when missing,
+ * also for a table of which the columns did not change. Like the sort, NULL values are ordered first.
+ */
+async function syncLowercaseIndexes(
+  connection: PoolClient,
+  tableName: string,
+  expectedColumns: Map<string, ExpectedColumn>
+): Promise<void> {
+  for (const [name, column] of expectedColumns) {
+    if (!column.lowercaseIndex) {
+      continue;
+    }
+    await executeQuery(
+      connection,
+      `CREATE INDEX IF NOT EXISTS ${escapeId(
+        getIndexName(`idx_${tableName}_${name}_lower`)
+      )} ON ${escapeId(tableName)} (lower(${escapeId(name)}) NULLS FIRST)`
+    );
+  }
+}
+
+export default async (
+  entity: EntityDefinition,
+  tableName: string,
+  pool: Pool
+): Promise<void> => {
+  const expectedColumns = getExpectedColumns(entity);
+
+  await withTransaction(pool, async (connection: PoolClient) => {
+    await syncColumns(connection, tableName, expectedColumns);
+    await syncLowercaseIndexes(connection, tableName, expectedColumns);
+  });
+};
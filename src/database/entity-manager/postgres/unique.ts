@@ -0,0 +1,64 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { Pool } from 'pg';
+import type { EntityDefinition } from '../../types.js';
+import {
+  getColumnName,
+  getUniqueFieldGroups,
+  getUniqueIndexName,
+  validateUniqueFields,
+} from '../utils.js';
+import { escapeId, executeQuery, getIndexName, getQuery } from './utils.js';
+
+const debug: Debugger = Debug('supersave:db:postgres:unique');
+
+/**
+ * Creates a UNIQUE index on the generated columns for each of the `uniqueFields` of the entity, and drops the
+ * unique indexes that are no longer defined.
+ */
+export default async function syncUniqueIndexes(
+  entity: EntityDefinition,
+  tableName: string,
+  pool: Pool
+): Promise<void> {
+  validateUniqueFields(entity);
+
+  const expectedIndexes = new Map<string, string[]>(
+    getUniqueFieldGroups(entity).map((fields: string[]) => [
+      getIndexName(getUniqueIndexName(tableName, fields)),
+      fields,
+    ])
+  );
+  const existingIndexes = (
+    await getQuery<{ indexname: string }>(
+      pool,
+      `
+      SELECT indexname
+      FROM pg_indexes
+      WHERE schemaname = current_schema()
+        AND tablename = $1
+        AND indexname LIKE $2
+    `,
+      [tableName, `${tableName}\\_unique\\_%`]
+    )
+  ).map((index) => index.indexname);
+
+  for (const indexName of existingIndexes) {
+    if (!expectedIndexes.has(indexName)) {
+      debug(`Dropping unique index ${indexName}.`);
+      await executeQuery(pool, `DROP INDEX ${escapeId(indexName)}`);
+    }
+  }
+
+  for (const [indexName, fields] of expectedIndexes) {
+    if (!existingIndexes.includes(indexName)) {
+      debug(`Adding unique index ${indexName}.`);
+      await executeQuery(
+        pool,
+        `CREATE UNIQUE INDEX ${escapeId(indexName)} ON ${escapeId(tableName)} (${fields
+          .map((field: string) => escapeId(getColumnName(field)))
+          .join(',')})`
+      );
+    }
+  }
+}
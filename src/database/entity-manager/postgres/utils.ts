@@ -0,0 +1,100 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { Pool, PoolClient } from 'pg';
+import { shortenIndexName } from '../utils.js';
+
+const debug: Debugger = Debug('supersave:db:em:postgres');
+
+export type QueryValue = string | number | boolean | null | string[];
+
+export async function getQuery<T>(
+  connection: PoolClient | Pool,
+  query: string,
+  values: QueryValue[] = []
+): Promise<T[]> {
+  debug('Fetching results for query.', query, values);
+
+  const result = await connection.query(query, values);
+  return result.rows as T[];
+}
+
+export async function executeQuery(
+  connection: PoolClient | Pool,
+  query: string,
+  values: QueryValue[] = []
+): Promise<void> {
+  debug('Executing query', query);
+  await connection.query(query, values);
+}
+
+export async function executeUpdate(
+  connection: PoolClient | Pool,
+  query: string,
+  values: QueryValue[] = []
+): Promise<number> {
+  debug('Executing update query', query);
+  const result = await connection.query(query, values);
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Runs the callback within a transaction. When the connection is already bound to a
+ * transaction, it is reused and no new transaction is started.
+ */
+export async function withTransaction<R>(
+  connection: PoolClient | Pool,
+  callback: (connection: PoolClient) => Promise<R>
+): Promise<R> {
+  if ('release' in connection) {
+    return callback(connection);
+  }
+
+  const client = await connection.connect();
+  try {
+    await client.query('BEGIN');
+    try {
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Quotes an identifier, like a table or column name.
+ */
+export function escapeId(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quotes a string literal, for statements that do not support placeholders.
+ */
+export function escapeLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Returns the path of a (nested) field, as used by the `#>` and `#>>` operators on the contents.
+ */
+export function getFieldPath(field: string): string[] {
+  return field.split('.');
+}
+
+/**
+ * The name of the generated column that holds the text of the search fields, it has a GIN index.
+ */
+export const SEARCH_COLUMN = '__search';
+
+/**
+ * Postgres truncates identifiers to 63 characters, so a longer index name is shortened using a hash of the full name.
+ * Otherwise two names that start the same would refer to the same index.
+ */
+export function getIndexName(name: string): string {
+  return shortenIndexName(name);
+}
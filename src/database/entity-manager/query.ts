@@ -1,13 +1,17 @@
 import type {
   FilterSortField,
-  QueryFilter,
+  QueryCondition,
+  QueryCursor,
+  QueryFilterGroup,
   QueryFilterValue,
   QuerySort,
 } from '../types.js';
 import { QueryOperatorEnum } from '../types.js';
+import { decodeCursor } from './cursor.js';
+import { DELETED_AT_FIELD, normalizeDateValue } from './utils.js';
 
 class Query {
-  private where: QueryFilter[] = [];
+  private where: QueryCondition[] = [];
 
   private sortValues: QuerySort[] = [];
 
@@ -15,8 +19,16 @@ class Query {
 
   private offsetValue?: number;
 
+  private afterValue?: QueryCursor;
+
+  private searchValue?: string;
+
+  private deletedValue: 'exclude' | 'include' | 'only' = 'exclude';
+
   constructor(
-    private readonly filterSortFields: Record<string, FilterSortField>
+    private readonly filterSortFields: Record<string, FilterSortField>,
+    private readonly searchFields: string[] = [],
+    private readonly softDelete = false
   ) {}
 
   private addFilter(
@@ -24,10 +36,24 @@ class Query {
     field: string,
     value: QueryFilterValue
   ): Query {
-    if (typeof this.filterSortFields[field] === 'undefined') {
+    const type = this.filterSortFields[field];
+    if (typeof type === 'undefined') {
       throw new TypeError(`Cannot filter on not defined field ${field}.`);
     }
-    this.where.push({ operator, field, value });
+
+    let filterValue = value;
+    if (
+      (type === 'date' || type === 'datetime') &&
+      operator !== QueryOperatorEnum.LIKE &&
+      value !== null &&
+      typeof value !== 'undefined'
+    ) {
+      // Compare with the normalized value as stored in the generated column.
+      filterValue = Array.isArray(value)
+        ? value.map((item: unknown) => normalizeDateValue(item, type))
+        : normalizeDateValue(value, type);
+    }
+    this.where.push({ operator, field, value: filterValue });
     return this;
   }
 
@@ -59,10 +85,97 @@ class Query {
     return this.addFilter(QueryOperatorEnum.IN, field, value);
   }
 
-  public getWhere(): QueryFilter[] {
+  /**
+   * Matches when the array in the field, a `string[]` field or a relation with multiple entities,
+   * contains the value.
+   */
+  public contains(field: string, value: string): Query {
+    return this.addFilter(QueryOperatorEnum.CONTAINS, field, value);
+  }
+
+  /**
+   * Matches when the array in the field contains at least one of the values.
+   */
+  public containsAny(field: string, values: string[]): Query {
+    return this.addFilter(QueryOperatorEnum.CONTAINS_ANY, field, values);
+  }
+
+  private addGroup(
+    operator: QueryFilterGroup['operator'],
+    callback: (query: Query) => unknown
+  ): Query {
+    const group = new Query(this.filterSortFields);
+    callback(group);
+    this.where.push({ operator, filters: group.getWhere() });
+    return this;
+  }
+
+  /**
+   * Matches when all filters added to the provided query match.
+   */
+  public and(callback: (query: Query) => unknown): Query {
+    return this.addGroup('AND', callback);
+  }
+
+  /**
+   * Matches when at least one of the filters added to the provided query matches.
+   * @example query.or((q) => q.eq('status', 'draft').eq('owner', 'me'))
+   */
+  public or(callback: (query: Query) => unknown): Query {
+    return this.addGroup('OR', callback);
+  }
+
+  /**
+   * Matches when not all of the filters added to the provided query match.
+   */
+  public not(callback: (query: Query) => unknown): Query {
+    return this.addGroup('NOT', callback);
+  }
+
+  /**
+   * Returns the filters that were added to the query, without the filter on the `deletedAt` field of getWhere().
+   */
+  public getFilters(): QueryCondition[] {
     return this.where;
   }
 
+  /**
+   * Returns the filters of the query. For an entity with soft deletes, this includes the filter on the `deletedAt`
+   * field, which by default excludes the deleted entities.
+   */
+  public getWhere(): QueryCondition[] {
+    if (!this.softDelete || this.deletedValue === 'include') {
+      return this.where;
+    }
+    const notDeleted: QueryCondition = {
+      operator: QueryOperatorEnum.EQUALS,
+      field: DELETED_AT_FIELD,
+      value: null,
+    };
+    return [
+      ...this.where,
+      this.deletedValue === 'only'
+        ? { operator: 'NOT', filters: [notDeleted] }
+        : notDeleted,
+    ];
+  }
+
+  /**
+   * Also return the entities that are soft deleted. Has no effect for an entity without soft deletes.
+   */
+  public withDeleted(): Query {
+    this.deletedValue = 'include';
+    return this;
+  }
+
+  /**
+   * Only return the entities that are soft deleted. Has no effect for an entity without soft deletes.
+   */
+  public onlyDeleted(): Query {
+    this.deletedValue = 'only';
+    return this;
+  }
+
   public limit(limit: number | undefined): Query {
     this.limitValue = limit;
     return this;
@@ -81,6 +194,40 @@ class Query {
     return this.offsetValue;
   }
 
+  /**
+   * Only return results positioned after the cursor, as returned by `Repository.createCursor()`.
+   * The sort of the query must be set before, and must be the same as when the cursor was created.
+   * The offset is ignored when a cursor is set.
+   */
+  public after(cursor: string): Query {
+    const decoded = decodeCursor(cursor);
+    if (decoded.values.length !== this.sortValues.length) {
+      throw new TypeError('The cursor does not match the sort of the query.');
+    }
+    this.afterValue = decoded;
+    return this;
+  }
+
+  public getAfter(): QueryCursor | undefined {
+    return this.afterValue;
+  }
+
+  /**
+   * Only return the entities matching the full-text search term in their `searchFields`. Without a sort,
+   * the results are ordered by relevance.
+   */
+  public search(term: string): Query {
+    if (this.searchFields.length === 0) {
+      throw new TypeError('Cannot search, no searchFields are defined.');
+    }
+    this.searchValue = term.trim() === '' ? undefined : term.trim();
+    return this;
+  }
+
+  public getSearch(): string | undefined {
+    return this.searchValue;
+  }
+
   public sort(field: string, direction: 'asc' | 'desc' = 'asc'): Query {
     if (typeof this.filterSortFields[field] === 'undefined') {
       throw new TypeError(`Requested sort field ${field} is not defined.`);
@@ -1,10 +1,54 @@
+import {
+  ConflictError,
+  RelationRestrictError,
+  UniqueConstraintError,
+  ValidationError,
+} from '../error/index.js';
 import type {
   BaseEntity,
+  DanglingReference,
+  DeleteOptions,
   EntityDefinition,
   EntityRow,
+  ExpandOptions,
+  GetOptions,
+  HistoryEntry,
+  HistoryOperation,
+  HistoryRow,
   Relation,
+  WriteOptions,
 } from '../types.js';
+import { encodeCursor } from './cursor.js';
 import Query from './query.js';
+import {
+  CREATED_AT_FIELD,
+  DELETED_AT_FIELD,
+  getFieldValue,
+  getManagedFields,
+  normalizeDateValue,
+  UPDATED_AT_FIELD,
+  VERSION_FIELD,
+} from './utils.js';
+
+/**
+ * An entity that is deleted as part of a deletion, including the references to it that are set to null.
+ */
+type Deletion = {
+  repository: Repository<any>;
+  id: string;
+  setNull: { repository: Repository<any>; relation: Relation; ids: string[] }[];
+};
+
+/**
+ * The state of reading entities, the stored entities and the entities referring to them via inverse relations are
+ * keyed by their entity key.
+ */
+type ExpandContext = {
+  options: ExpandOptions;
+  entities: Map<string, BaseEntity>;
+  referringEntities: Map<string, BaseEntity[]>;
+  loaded: Set<string>;
+};
 
 export default abstract class Repository<T> {
   protected relationFields: string[];
@@ -17,7 +61,8 @@ export default abstract class Repository<T> {
     protected readonly getRepository: (
       name: string,
       namespace?: string
-    ) => Repository<any>
+    ) => Repository<any>,
+    protected readonly getDefinitions: () => EntityDefinition[]
   ) {
     this.relationFields = definition.relations.map(
       (relation: Relation) => relation.field
@@ -28,97 +73,536 @@ export default abstract class Repository<T> {
     });
   }
 
-  public async getById(id: string): Promise<T | null> {
-    return await this.queryById(id);
+  public async getAll(options: GetOptions = {}): Promise<T[]> {
+    const query = this.createQuery();
+    if (options.withDeleted) {
+      query.withDeleted();
+    }
+    return await this.getByQuery(query, options);
+  }
+
+  public async getById(
+    id: string,
+    options: GetOptions = {}
+  ): Promise<T | null> {
+    const entity = await this.queryById(id, options);
+    if (entity !== null && !options.withDeleted && this.isDeleted(entity)) {
+      return null;
+    }
+    return entity;
+  }
+
+  public async getByIds(ids: string[], options: GetOptions = {}): Promise<T[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const rows = (await this.queryRowsByIds(ids)).filter(
+      (row: EntityRow) =>
+        options.withDeleted || !this.isDeleted(this.toEntity(row))
+    );
+    return await this.transformQueryResultRows(rows, options);
+  }
+
+  /**
+   * Returns if the entity is soft deleted, an entity without soft deletes is never deleted.
+   */
+  protected isDeleted(entity: T | BaseEntity): boolean {
+    const deletedAt = (entity as BaseEntity)[DELETED_AT_FIELD];
+    return (
+      this.definition.softDelete === true &&
+      deletedAt !== null &&
+      typeof deletedAt !== 'undefined'
+    );
   }
 
-  public async getOneByQuery(query: Query): Promise<T | null> {
-    const result: T[] = await this.getByQuery(query);
+  public async getOneByQuery(
+    query: Query,
+    options: ExpandOptions = {}
+  ): Promise<T | null> {
+    const result: T[] = await this.getByQuery(query, options);
     if (result.length === 0) {
       return null;
     }
     return result[0];
   }
 
-  protected async transformQueryResultRows(rows: EntityRow[]): Promise<T[]> {
-    const results: T[] = [];
+  /**
+   * Converts the rows to entities. The related entities of all rows are retrieved first, using a single query per
+   * relation and level, after which the relations are filled in. A relation referring to an entity that is already
+   * being filled in higher up, a cycle, keeps the id of the related entity.
+   */
+  protected async transformQueryResultRows(
+    rows: (EntityRow | { id: string; contents: string | object })[],
+    options: ExpandOptions = {}
+  ): Promise<T[]> {
+    const context: ExpandContext = {
+      options,
+      entities: new Map<string, BaseEntity>(),
+      referringEntities: new Map<string, BaseEntity[]>(),
+      loaded: new Set<string>(),
+    };
     for (const row of rows) {
-      results.push(await this.transformQueryResultRow(row));
+      context.entities.set(this.getEntityKey(row.id), this.toEntity(row));
     }
-    return results;
+    await this.loadRelations(
+      context,
+      rows.map((row) => row.id),
+      '',
+      0
+    );
+
+    return rows.map((row) => this.buildEntity(context, row.id, '', 0, []) as T);
   }
 
-  protected async transformQueryResultRow(row: EntityRow): Promise<T> {
-    const parsedContents = JSON.parse(row.contents);
+  protected async transformQueryResultRow(
+    row: EntityRow | { id: string; contents: string | object },
+    options: ExpandOptions = {}
+  ): Promise<T> {
+    const [entity] = await this.transformQueryResultRows([row], options);
+    return entity;
+  }
+
+  /**
+   * Converts the row to the entity as it is stored, the relations contain the ids of the related entities.
+   */
+  protected toEntity(
+    row: EntityRow | { id: string; contents: string | object }
+  ): BaseEntity {
     return {
       ...this.definition.template,
-      ...(await this.fillInRelations(parsedContents)),
+      // MySQL JSON columns return objects, not strings - handle both cases
+      ...(typeof row.contents === 'string'
+        ? JSON.parse(row.contents)
+        : row.contents),
       id: row.id, // always make the row the leading ID field
-    } as unknown as T;
+    };
   }
 
-  protected async fillInRelations(entity: T): Promise<T> {
-    if (!this.definition.relations?.length) {
-      return entity;
+  protected getEntityKey(id: string): string {
+    return `${this.tableName}:${id}`;
+  }
+
+  protected shouldExpand(
+    options: ExpandOptions,
+    path: string,
+    depth: number
+  ): boolean {
+    if (typeof options.depth !== 'undefined' && depth > options.depth) {
+      return false;
     }
+    if (typeof options.expand === 'undefined') {
+      return true;
+    }
+    // expanding planet.star requires planet to be expanded as well
+    return options.expand.some(
+      (expandPath: string) =>
+        expandPath === path || expandPath.startsWith(`${path}.`)
+    );
+  }
 
-    const clone: T = JSON.parse(JSON.stringify(entity)); // TODO replace with clone function
+  /**
+   * Retrieves the related entities of the entities with the provided ids, that are already in the context, and
+   * continues with the relations of the related entities.
+   */
+  protected async loadRelations(
+    context: ExpandContext,
+    ids: string[],
+    path: string,
+    depth: number
+  ): Promise<void> {
+    // Without expand paths or a depth, an entity has to be loaded only once. This also ends cycles.
+    const loadedKey = `${typeof context.options.expand === 'undefined' ? '' : path}|${
+      typeof context.options.depth === 'undefined' ? 0 : depth
+    }`;
+    const newIds = ids.filter(
+      (id: string) =>
+        !context.loaded.has(`${this.getEntityKey(id)}|${loadedKey}`)
+    );
+    if (newIds.length === 0) {
+      return;
+    }
+    for (const id of newIds) {
+      context.loaded.add(`${this.getEntityKey(id)}|${loadedKey}`);
+    }
+    const entities = newIds.map(
+      (id: string) => context.entities.get(this.getEntityKey(id)) as BaseEntity
+    );
 
     for (const relation of this.definition.relations) {
+      const relationPath = path ? `${path}.${relation.field}` : relation.field;
+      if (!this.shouldExpand(context.options, relationPath, depth + 1)) {
+        continue;
+      }
+
+      const relatedIds = new Set<string>();
+      for (const entity of entities) {
+        const value = entity[relation.field];
+        if (relation.multiple && Array.isArray(value)) {
+          for (const id of value) {
+            relatedIds.add(id);
+          }
+        } else if (!relation.multiple && typeof value === 'string') {
+          relatedIds.add(value);
+        }
+      }
+      if (relatedIds.size === 0) {
+        continue;
+      }
+
       const repository = this.getRepository(relation.name, relation.namespace);
+      const missingIds = [...relatedIds].filter(
+        (id: string) => !context.entities.has(repository.getEntityKey(id))
+      );
+      if (missingIds.length > 0) {
+        for (const row of await repository.queryRowsByIds(missingIds)) {
+          context.entities.set(
+            repository.getEntityKey(row.id),
+            repository.toEntity(row)
+          );
+        }
+      }
+      await repository.loadRelations(
+        context,
+        [...relatedIds].filter((id: string) =>
+          context.entities.has(repository.getEntityKey(id))
+        ),
+        relationPath,
+        depth + 1
+      );
+    }
+
+    for (const inverseRelation of this.definition.inverseRelations ?? []) {
+      const repository = this.getRepository(
+        inverseRelation.name,
+        inverseRelation.namespace
+      );
+      const relation = repository.relationsMap.get(inverseRelation.inverseOf);
+      if (!relation) {
+        throw new TypeError(
+          `The inverse relation ${inverseRelation.field} refers to the not defined relation ${inverseRelation.inverseOf} of ${inverseRelation.name}.`
+        );
+      }
+
+      const referringEntities = new Map<string, BaseEntity[]>();
+      for (const row of await repository.getReferringRows(relation, newIds)) {
+        const referringEntity = repository.toEntity(row);
+        // Like any other read, the soft deleted entities are excluded.
+        if (repository.isDeleted(referringEntity)) {
+          continue;
+        }
+        const value = referringEntity[relation.field];
+        const referredIds = relation.multiple
+          ? Array.isArray(value)
+            ? value
+            : []
+          : [value];
+        for (const id of referredIds) {
+          referringEntities.set(id, [
+            ...(referringEntities.get(id) ?? []),
+            referringEntity,
+          ]);
+        }
+      }
+      for (const id of newIds) {
+        context.referringEntities.set(
+          `${this.getEntityKey(id)}.${inverseRelation.field}`,
+          referringEntities.get(id) ?? []
+        );
+      }
+    }
+  }
 
-      if (!relation.multiple) {
-        // @ts-expect-error Suppress the TS error because there is no guarantee that the attribute exists.
-        const id = clone[relation.field];
-        if (typeof id === 'string') {
-          const relatedEntity = await repository.getById(id);
-          if (!relatedEntity) {
+  /**
+   * Creates the entity with its relations filled in using the entities in the context. The ancestors are the
+   * entity keys of the entities that refer to this entity, used to detect cycles.
+   */
+  protected buildEntity(
+    context: ExpandContext,
+    id: string,
+    path: string,
+    depth: number,
+    ancestors: string[]
+  ): BaseEntity {
+    const key = this.getEntityKey(id);
+    const storedEntity = context.entities.get(key) as BaseEntity;
+    const entity: BaseEntity = { ...storedEntity };
+    const relatedAncestors = [...ancestors, key];
+
+    for (const relation of this.definition.relations) {
+      const value = storedEntity[relation.field];
+      if (relation.multiple && !Array.isArray(value)) {
+        entity[relation.field] = [];
+        continue;
+      }
+      const relationPath = path ? `${path}.${relation.field}` : relation.field;
+      if (!this.shouldExpand(context.options, relationPath, depth + 1)) {
+        continue;
+      }
+
+      const repository = this.getRepository(relation.name, relation.namespace);
+      const missing =
+        relation.missing ?? (relation.multiple ? 'omit' : 'throw');
+      const getRelatedEntity = (
+        relatedId: string
+      ): BaseEntity | string | null | undefined => {
+        const relatedKey = repository.getEntityKey(relatedId);
+        if (relatedAncestors.includes(relatedKey)) {
+          return relatedId;
+        }
+        if (!context.entities.has(relatedKey)) {
+          if (missing === 'throw') {
             throw new Error(
-              `Unable to find related entity ${relation.name} with id ${
-                // @ts-expect-error Suppress the TS error because there is no guarantee that the attribute exists.
-                entity[relation.field]
-              }`
+              `Unable to find related entity ${relation.name} with id ${relatedId}`
             );
           }
-          // @ts-expect-error Suppress the TS error because there is no guarantee that the attribute exists.
-          clone[relation.field] = relatedEntity;
+          if (missing === 'null') {
+            return null;
+          }
+          return missing === 'keepId' ? relatedId : undefined;
         }
-      } else {
-        const mappedEntities = await this.mapRelationToMultiple(
-          relation,
-          // @ts-expect-error Suppress the TS error because there is no guarantee that the attribute exists.
-          clone[relation.field]
+        return repository.buildEntity(
+          context,
+          relatedId,
+          relationPath,
+          depth + 1,
+          relatedAncestors
         );
-        // @ts-expect-error Suppress the TS error because there is no guarantee that the attribute exists.
-        clone[relation.field] = mappedEntities;
+      };
+
+      if (relation.multiple) {
+        // preserve the ordering, omitted entities are left out
+        entity[relation.field] = value
+          .map(getRelatedEntity)
+          .filter(
+            (relatedEntity: BaseEntity | string | null | undefined) =>
+              typeof relatedEntity !== 'undefined'
+          );
+      } else if (typeof value === 'string') {
+        const relatedEntity = getRelatedEntity(value);
+        if (typeof relatedEntity === 'undefined') {
+          delete entity[relation.field];
+        } else {
+          entity[relation.field] = relatedEntity;
+        }
       }
     }
-    return clone;
+
+    for (const inverseRelation of this.definition.inverseRelations ?? []) {
+      const referringEntities =
+        context.referringEntities.get(`${key}.${inverseRelation.field}`) ?? [];
+      const inversePath = path
+        ? `${path}.${inverseRelation.field}`
+        : inverseRelation.field;
+      // the referring entities are returned as stored
+      entity[inverseRelation.field] = this.shouldExpand(
+        context.options,
+        inversePath,
+        depth + 1
+      )
+        ? referringEntities.map((referringEntity) => ({ ...referringEntity }))
+        : referringEntities.map((referringEntity) => referringEntity.id);
+    }
+    return entity;
   }
 
-  protected async mapRelationToMultiple(
-    relation: Relation,
-    array: string[]
-  ): Promise<BaseEntity[]> {
-    if (!Array.isArray(array) || array.length === 0) {
-      return [];
+  /**
+   * Returns the relations of the entities that refer to an entity that no longer exists, so they can be cleaned up.
+   */
+  public async getDanglingReferences(): Promise<DanglingReference[]> {
+    // Without expanding, the relations contain the ids of the related entities.
+    const entities = (await this.getAll({
+      depth: 0,
+      withDeleted: true,
+    })) as BaseEntity[];
+    const danglingReferences: DanglingReference[] = [];
+
+    for (const relation of this.definition.relations) {
+      const getRelatedIds = (entity: BaseEntity): string[] => {
+        const value = entity[relation.field];
+        if (relation.multiple) {
+          return Array.isArray(value) ? value : [];
+        }
+        return typeof value === 'string' ? [value] : [];
+      };
+
+      const relatedIds = new Set<string>(entities.flatMap(getRelatedIds));
+      if (relatedIds.size === 0) {
+        continue;
+      }
+      const repository = this.getRepository(relation.name, relation.namespace);
+      const existingIds = new Set<string>(
+        (await repository.queryRowsByIds([...relatedIds])).map(
+          (row: EntityRow) => row.id
+        )
+      );
+
+      for (const entity of entities) {
+        for (const relatedId of getRelatedIds(entity)) {
+          if (!existingIds.has(relatedId)) {
+            danglingReferences.push({
+              id: entity.id as string,
+              field: relation.field,
+              relatedId,
+            });
+          }
+        }
+      }
     }
-    const repository = this.getRepository(relation.name, relation.namespace);
-    const repositoryResults = await repository.getByIds(array);
+    return danglingReferences;
+  }
 
-    // preserve the ordering
-    const resultsMap = new Map<string, BaseEntity>();
-    repositoryResults.forEach((result) => {
-      resultsMap.set(result.id, result);
-    });
+  /**
+   * Creates the error for a write that violates the unique constraint on the fields.
+   */
+  protected createUniqueConstraintError(
+    fields: string[]
+  ): UniqueConstraintError {
+    return new UniqueConstraintError(
+      `The ${fields.join(', ')} of ${this.definition.name} must be unique.`,
+      fields
+    );
+  }
+
+  /**
+   * Creates the error for an update of an entity of which the stored version no longer matches.
+   */
+  protected createConflictError(id: string): ConflictError {
+    return new ConflictError(
+      `The ${this.definition.name} ${id} was changed since it was read.`,
+      this.definition.name,
+      id
+    );
+  }
 
-    const mappedResults: BaseEntity[] = [];
-    array.forEach((id) => {
-      if (resultsMap.get(id)) {
-        mappedResults.push(resultsMap.get(id) as BaseEntity);
+  /**
+   * Throws a ConflictError when the entity exists, used when a write that depends on the version changed nothing.
+   */
+  protected async checkConflict(id: string): Promise<void> {
+    const [row] = await this.queryRowsByIds([id]);
+    if (row) {
+      throw this.createConflictError(id);
+    }
+  }
+
+  /**
+   * Returns the version an entity with versioning was read with, null when it has none. An update only succeeds
+   * when the stored entity still has this version.
+   */
+  protected getReadVersion(entity: T | BaseEntity): number | null {
+    const version = Number((entity as BaseEntity)[VERSION_FIELD]);
+    return Number.isInteger(version) ? version : null;
+  }
+
+  /**
+   * Sets the timestamps of an entity with timestamps and the version of an entity with versioning. A created entity
+   * keeps the timestamps and version it is provided with, an updated entity gets the version after the one it was
+   * read with.
+   */
+  protected setManagedFields(entity: BaseEntity, created: boolean): BaseEntity {
+    const managed: BaseEntity = { ...entity };
+    if (this.definition.timestamps) {
+      const now = new Date().toISOString();
+      if (created) {
+        managed[CREATED_AT_FIELD] = entity[CREATED_AT_FIELD] ?? now;
       }
+      managed[UPDATED_AT_FIELD] = created
+        ? (entity[UPDATED_AT_FIELD] ?? now)
+        : now;
+    }
+    if (this.definition.versioning) {
+      const version = this.getReadVersion(entity);
+      managed[VERSION_FIELD] = created ? (version ?? 1) : (version ?? 0) + 1;
+    }
+    return managed;
+  }
+
+  /**
+   * Returns the objects with the `createdAt` and `deletedAt` fields of the stored entities, an update never changes
+   * them. Otherwise an object could change the moment of creation, or restore an entity when it was read before the
+   * entity was deleted.
+   */
+  protected async keepStoredFields(objects: T[]): Promise<T[]> {
+    const fields: string[] = [
+      ...(this.definition.timestamps ? [CREATED_AT_FIELD] : []),
+      ...(this.definition.softDelete ? [DELETED_AT_FIELD] : []),
+    ];
+    if (fields.length === 0 || objects.length === 0) {
+      return objects;
+    }
+    const stored = new Map<string, BaseEntity>(
+      (
+        await this.queryRowsByIds(
+          objects.map((object: T) => (object as BaseEntity).id as string)
+        )
+      ).map((row: EntityRow) => [row.id, this.toEntity(row)])
+    );
+    return objects.map((object: T) => {
+      const kept: BaseEntity = { ...(object as BaseEntity) };
+      const entity = stored.get(kept.id as string);
+      for (const field of fields) {
+        const value = entity?.[field];
+        if (value === null || typeof value === 'undefined') {
+          delete kept[field];
+        } else {
+          kept[field] = value;
+        }
+      }
+      return kept as T;
     });
-    return mappedResults;
+  }
+
+  /**
+   * Returns the entities with the ids as they are stored, in the order of the ids. An id of an entity that does not
+   * exist is left out, like `update` returns null for it.
+   */
+  protected async queryUpdatedEntities(ids: string[]): Promise<T[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const rows = new Map<string, EntityRow>(
+      (await this.queryRowsByIds(ids)).map((row: EntityRow) => [row.id, row])
+    );
+    return await this.transformQueryResultRows(
+      ids.flatMap((id: string) => rows.get(id) ?? [])
+    );
+  }
+
+  /**
+   * Validates the contents of the entity against the schema of the definition and returns the parsed contents.
+   * Relations are validated in the way they are stored, as the id or ids of the related entities.
+   */
+  protected validate(entity: BaseEntity): BaseEntity {
+    if (!this.definition.schema) {
+      return entity;
+    }
+
+    const { id: _id, ...contents } = entity;
+    const result = this.definition.schema.safeParse(contents);
+    if (result.success) {
+      // The fields set by supersave are kept, they are not part of the schema.
+      const managedFields = Object.keys(
+        getManagedFields(this.definition)
+      ).filter((field: string) => field in contents);
+      return {
+        ...result.data,
+        ...Object.fromEntries(
+          managedFields.map((field: string) => [field, contents[field]])
+        ),
+      };
+    }
+
+    const issues = result.error.issues.map((issue) => ({
+      path: issue.path.map(String).join('.'),
+      message: issue.message,
+    }));
+    throw new ValidationError(
+      `The ${this.definition.name} is not valid: ${issues
+        .map((issue) =>
+          issue.path ? `${issue.path}: ${issue.message}` : issue.message
+        )
+        .join(', ')}.`,
+      issues
+    );
   }
 
   /**
@@ -129,23 +613,32 @@ export default abstract class Repository<T> {
 
   protected simplifyRelations(entity: any): T {
     // eslint-disable-line @typescript-eslint/explicit-module-boundary-types
+    const clone = { ...entity };
+    // inverse relations are derived from the referring entities, they are not stored
+    for (const inverseRelation of this.definition.inverseRelations ?? []) {
+      delete clone[inverseRelation.field];
+    }
     if (this.definition.relations.length === 0) {
-      return { ...entity };
+      return clone;
     }
 
-    const clone = { ...entity };
     this.definition.relations.forEach((relation: Relation) => {
       if (!clone[relation.field]) {
         return;
       }
       if (relation.multiple) {
-        clone[relation.field] = entity[relation.field].map(
-          // if it is an object, use its id, else the entity is already represented by its as as string, use that immediately
-          (relationEntity: BaseEntity) =>
-            typeof relationEntity === 'string'
-              ? relationEntity
-              : relationEntity.id
-        );
+        // missing entities that are read as null are not stored
+        clone[relation.field] = entity[relation.field]
+          .filter(
+            (relationEntity: BaseEntity | null) => relationEntity !== null
+          )
+          .map(
+            // if it is an object, use its id, else the entity is already represented by its as as string, use that immediately
+            (relationEntity: BaseEntity) =>
+              typeof relationEntity === 'string'
+                ? relationEntity
+                : relationEntity.id
+          );
       } else {
         // if it is an object, use its id, else the entity is already represented by its as as string, use that immediately
         clone[relation.field] =
@@ -158,20 +651,425 @@ export default abstract class Repository<T> {
   }
 
   public createQuery(): Query {
-    return new Query(this.definition.filterSortFields || {});
+    return new Query(
+      this.definition.filterSortFields || {},
+      this.definition.searchFields,
+      this.definition.softDelete
+    );
+  }
+
+  /**
+   * Creates a cursor positioned at the provided entity, which must be the result of the provided query.
+   * Use it with `Query.after()` to retrieve the results that follow the entity.
+   */
+  public createCursor(query: Query, entity: T): string {
+    const simplifiedEntity = this.simplifyRelations(entity) as BaseEntity;
+    return encodeCursor({
+      values: query.getSort().map((sort) => {
+        const value = getFieldValue(simplifiedEntity, sort.field);
+        // multiple relations are stored comma-separated in their column
+        if (Array.isArray(value)) {
+          return value.join(',');
+        }
+        const type = this.definition.filterSortFields?.[sort.field];
+        if (
+          (type === 'date' || type === 'datetime') &&
+          value !== null &&
+          typeof value !== 'undefined'
+        ) {
+          try {
+            return normalizeDateValue(value, type);
+          } catch {
+            // An invalid date is stored as NULL in its column.
+            return null;
+          }
+        }
+        return value ?? null;
+      }),
+      id: simplifiedEntity.id as string,
+    });
+  }
+
+  public abstract getByQuery(
+    query: Query,
+    options?: ExpandOptions
+  ): Promise<T[]>;
+
+  /**
+   * Counts the entities matching the filters of the query, sort, limit and offset are ignored.
+   */
+  public abstract count(query: Query): Promise<number>;
+
+  /**
+   * Deletes the entity and applies the `onDelete` action of the relations referring to it. Nothing is deleted
+   * when a relation with the `restrict` action refers to the entity, or to an entity deleted by a cascade.
+   * An entity with soft deletes is marked as deleted instead, the relations referring to it are left as they are.
+   * With a `version`, an entity with versioning that was changed since it was read is not deleted, a ConflictError
+   * is thrown instead.
+   */
+  public deleteUsingId(id: string, options: DeleteOptions = {}): Promise<void> {
+    return this.runInTransaction((repository) =>
+      repository.deleteInTransaction(id, options)
+    );
+  }
+
+  /**
+   * Deletes the entity, as part of the transaction of deleteUsingId.
+   */
+  protected async deleteInTransaction(
+    id: string,
+    options: DeleteOptions
+  ): Promise<void> {
+    const versioned =
+      this.definition.versioning === true && options.version !== undefined;
+    const query = this.createQuery().eq('id', id);
+    if (versioned) {
+      query.eq(VERSION_FIELD, options.version ?? null);
+    }
+
+    if (this.definition.softDelete) {
+      const deleted = await this.setDeletedAt(query, new Date().toISOString());
+      if (deleted === 0 && versioned) {
+        await this.checkConflict(id);
+      }
+      if (deleted > 0) {
+        await this.recordHistory(
+          'delete',
+          await this.queryRowsByIds([id]),
+          options
+        );
+      }
+      return;
+    }
+
+    const deletions = new Map<string, Deletion>();
+    await this.collectDeletions(id, deletions);
+
+    // References are updated before deleting, so the entities that are still referred to can be filled in.
+    for (const deletion of deletions.values()) {
+      for (const { repository, relation, ids } of deletion.setNull) {
+        const remainingIds = ids.filter(
+          (referringId: string) =>
+            !deletions.has(repository.getEntityKey(referringId))
+        );
+        if (remainingIds.length === 0) {
+          continue;
+        }
+
+        // Without expanding, the relations contain the ids of the related entities.
+        const entities: BaseEntity[] = await repository.getByIds(remainingIds, {
+          depth: 0,
+        });
+        await repository.updateMany(
+          entities.map((entity: BaseEntity) => ({
+            ...entity,
+            [relation.field]: relation.multiple
+              ? (entity[relation.field] ?? []).filter(
+                  (relatedId: string) => relatedId !== deletion.id
+                )
+              : null,
+          })),
+          options
+        );
+      }
+    }
+
+    for (const { repository, id: deletionId } of deletions.values()) {
+      // The history contains the entity as it was before it was deleted.
+      const rows = repository.definition.history
+        ? await repository.queryRowsByIds([deletionId])
+        : [];
+      if (versioned && repository === this && deletionId === id) {
+        // The version is checked by the delete itself, a conflict undoes the changes made before it.
+        if ((await this.deleteRowsByQuery(query)) === 0) {
+          await this.checkConflict(id);
+        }
+      } else {
+        await repository.deleteRowUsingId(deletionId);
+      }
+      await repository.recordHistory('delete', rows, options);
+    }
   }
 
-  public abstract getAll(): Promise<T[]>;
+  /**
+   * Collects the entity and the entities deleted by cascading relations, throws a RelationRestrictError when a
+   * restricting relation refers to one of them.
+   */
+  protected async collectDeletions(
+    id: string,
+    deletions: Map<string, Deletion>
+  ): Promise<void> {
+    const deletion: Deletion = { repository: this, id, setNull: [] };
+    deletions.set(this.getEntityKey(id), deletion);
+
+    for (const definition of this.getDefinitions()) {
+      for (const relation of definition.relations) {
+        if (
+          typeof relation.onDelete === 'undefined' ||
+          relation.name !== this.definition.name ||
+          relation.namespace !== this.definition.namespace
+        ) {
+          continue;
+        }
 
-  public abstract getByQuery(query: Query): Promise<T[]>;
+        const repository = this.getRepository(
+          definition.name,
+          definition.namespace
+        );
+        const ids = (await repository.getReferringRows(relation, [id]))
+          .map((row: EntityRow) => row.id)
+          .filter(
+            (referringId: string) =>
+              !deletions.has(repository.getEntityKey(referringId))
+          );
+        if (ids.length === 0) {
+          continue;
+        }
 
-  public abstract deleteUsingId(id: string): Promise<void>;
+        if (relation.onDelete === 'restrict') {
+          throw new RelationRestrictError(
+            `The ${this.definition.name} ${id} cannot be deleted, it is referred to by the ${relation.field} of ${definition.name} ${ids.join(', ')}.`,
+            definition.name,
+            relation.field,
+            ids
+          );
+        }
+        if (relation.onDelete === 'setNull') {
+          deletion.setNull.push({ repository, relation, ids });
+          continue;
+        }
+        for (const referringId of ids) {
+          // The entity may be reached via more than one cascading relation.
+          if (!deletions.has(repository.getEntityKey(referringId))) {
+            await repository.collectDeletions(referringId, deletions);
+          }
+        }
+      }
+    }
+  }
 
-  public abstract create(object: Omit<T, 'id'>): Promise<T>;
+  /**
+   * Deletes all entities matching the filters of the query, sort and limit are ignored. Entities with soft deletes
+   * are marked as deleted. The `onDelete` actions of the relations are not applied. Returns the number of deleted
+   * entities.
+   */
+  public deleteByQuery(
+    query: Query,
+    options: WriteOptions = {}
+  ): Promise<number> {
+    return this.runInTransaction(async (repository) => {
+      const deletedAt = new Date().toISOString();
+      if (!this.definition.history) {
+        return this.definition.softDelete
+          ? await repository.setDeletedAt(query, deletedAt)
+          : await repository.deleteRowsByQuery(query);
+      }
 
-  public abstract update(object: T): Promise<T>;
+      // The entities are deleted using their ids, so the history contains the entities that were deleted.
+      const rows = await repository.queryRowsByQuery(query);
+      if (rows.length === 0) {
+        return 0;
+      }
+      const ids = rows.map((row: EntityRow) => row.id);
+      const idsQuery = repository.createQuery().in('id', ids);
+      if (this.definition.softDelete) {
+        const deleted = await repository.setDeletedAt(idsQuery, deletedAt);
+        await repository.recordHistory(
+          'delete',
+          await repository.queryRowsByIds(ids),
+          options
+        );
+        return deleted;
+      }
+      const deleted = await repository.deleteRowsByQuery(idsQuery);
+      await repository.recordHistory('delete', rows, options);
+      return deleted;
+    });
+  }
+
+  /**
+   * Restores the soft deleted entity, returns null when there is no deleted entity with the id.
+   */
+  public restore(id: string, options: WriteOptions = {}): Promise<T | null> {
+    return this.runInTransaction(async (repository) => {
+      if (!this.definition.softDelete) {
+        throw new TypeError(
+          `Cannot restore, ${this.definition.name} does not use soft deletes.`
+        );
+      }
+      const restored = await repository.setDeletedAt(
+        repository.createQuery().onlyDeleted().eq('id', id),
+        null
+      );
+      if (restored === 0) {
+        return null;
+      }
+      await repository.recordHistory(
+        'update',
+        await repository.queryRowsByIds([id]),
+        options
+      );
+      return await repository.getById(id);
+    });
+  }
+
+  /**
+   * Records the operation on the rows in the history of an entity with history.
+   */
+  protected async recordHistory(
+    operation: HistoryOperation,
+    rows: (EntityRow | { id: string; contents: string | object })[],
+    options: WriteOptions
+  ): Promise<void> {
+    if (!this.definition.history || rows.length === 0) {
+      return;
+    }
+    const recordedAt = new Date().toISOString();
+    await this.insertHistoryRows(
+      rows.map((row) => ({
+        entityId: row.id,
+        operation,
+        contents: row.contents,
+        recordedAt,
+        actor: options.actor ?? null,
+      }))
+    );
+  }
+
+  /**
+   * Throws a TypeError when the entity does not keep a history.
+   */
+  protected assertHistory(): void {
+    if (!this.definition.history) {
+      throw new TypeError(
+        `Cannot read the history, ${this.definition.name} does not keep a history.`
+      );
+    }
+  }
+
+  /**
+   * Returns the changes to the entity with the id, the oldest first.
+   */
+  public async getHistory(id: string): Promise<HistoryEntry[]> {
+    this.assertHistory();
+    const rows = await this.queryHistoryRows(id);
+    return rows.map((row: HistoryRow) => ({
+      operation: row.operation,
+      entity: this.toEntity({ id: row.entityId, contents: row.contents }),
+      recordedAt: row.recordedAt,
+      actor: row.actor,
+    }));
+  }
+
+  /**
+   * Returns the entity with the id as it was stored at the moment, null when it did not exist or was deleted at that
+   * moment. The relations contain the ids of the related entities.
+   */
+  public async getAsOf(
+    id: string,
+    moment: Date | string
+  ): Promise<BaseEntity | null> {
+    this.assertHistory();
+    const rows = await this.queryHistoryRows(
+      id,
+      new Date(moment).toISOString()
+    );
+    const row = rows.at(-1);
+    if (typeof row === 'undefined' || row.operation === 'delete') {
+      return null;
+    }
+    return this.toEntity({ id: row.entityId, contents: row.contents });
+  }
+
+  /**
+   * Runs the callback within a transaction, the provided repository makes its changes as part of it. When the
+   * repository is already part of a transaction, the callback is part of that transaction. For the engines that share
+   * a single connection, other transactions and writes wait until it is done.
+   */
+  protected abstract runInTransaction<R>(
+    callback: (repository: this) => Promise<R>
+  ): Promise<R>;
+
+  /**
+   * Stores the rows in the history table of the entity.
+   */
+  protected abstract insertHistoryRows(rows: HistoryRow[]): Promise<void>;
+
+  /**
+   * Returns the history rows of the entity with the id, recorded at or before the moment when it is given, in the
+   * order they were recorded.
+   */
+  protected abstract queryHistoryRows(
+    id: string,
+    until?: string
+  ): Promise<HistoryRow[]>;
+
+  /**
+   * Sets the `deletedAt` field of the entities matching the filters of the query, null removes the field. The version
+   * of an entity with versioning is increased. Returns the number of updated entities.
+   */
+  protected abstract setDeletedAt(
+    query: Query,
+    deletedAt: string | null
+  ): Promise<number>;
+
+  /**
+   * Returns the rows of the entities of which the relation refers to one of the provided ids.
+   */
+  protected abstract getReferringRows(
+    relation: Relation,
+    ids: string[]
+  ): Promise<EntityRow[]>;
+
+  /**
+   * Deletes the row of the entity, without applying the `onDelete` actions of the relations.
+   */
+  protected abstract deleteRowUsingId(id: string): Promise<void>;
+
+  public abstract create(
+    object: Omit<T, 'id'>,
+    options?: WriteOptions
+  ): Promise<T>;
+
+  /**
+   * Updates the object. For an entity with versioning the update only succeeds when the stored entity still has the
+   * version of the object, otherwise a ConflictError is thrown. Nothing is updated when the entity does not exist.
+   */
+  public abstract update(object: T, options?: WriteOptions): Promise<T>;
+
+  /**
+   * Creates all objects in a single batch, the returned entities are in the same order as the input.
+   */
+  public abstract createMany(
+    objects: Omit<T, 'id'>[],
+    options?: WriteOptions
+  ): Promise<T[]>;
+
+  /**
+   * Updates all objects in a single batch, the returned entities are read back and in the same order as the input.
+   * Objects of which the entity does not exist are left out. Nothing is updated when the version of one of the
+   * objects does not match.
+   */
+  public abstract updateMany(
+    objects: T[],
+    options?: WriteOptions
+  ): Promise<T[]>;
+
+  /**
+   * Deletes the rows of the entities matching the filters of the query, also when the entity uses soft deletes.
+   * Returns the number of deleted rows.
+   */
+  protected abstract deleteRowsByQuery(query: Query): Promise<number>;
+
+  /**
+   * Returns the rows of the entities matching the filters of the query, sort and limit are ignored.
+   */
+  protected abstract queryRowsByQuery(query: Query): Promise<EntityRow[]>;
 
-  public abstract getByIds(ids: string[]): Promise<T[]>;
+  protected abstract queryRowsByIds(ids: string[]): Promise<EntityRow[]>;
 
-  protected abstract queryById(id: string): Promise<T | null>;
+  protected abstract queryById(
+    id: string,
+    options?: ExpandOptions
+  ): Promise<T | null>;
 }
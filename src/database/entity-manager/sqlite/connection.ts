@@ -1,6 +1,26 @@
 import Database from 'better-sqlite3';
 
-export default (filename: string): Database.Database => {
+export type SqliteStatement = {
+  source: string;
+  run(...params: unknown[]): { changes: number };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+};
+
+/**
+ * The functions of a better-sqlite3 database that are used by the sqlite engine, so the engine can also run on top of
+ * node:sqlite.
+ */
+export type SqliteDatabase = {
+  prepare(source: string): SqliteStatement;
+  exec(source: string): unknown;
+  transaction(fn: () => void): () => void;
+  close(): unknown;
+};
+
+export type SqliteDriver = 'better-sqlite3' | 'node';
+
+export default (filename: string): SqliteDatabase => {
   const db = new Database(filename);
   db.pragma('journal_mode = WAL');
   return db;
@@ -0,0 +1,33 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { EntityDefinition } from '../../types.js';
+import type { SqliteDatabase } from './connection.js';
+
+const debug: Debugger = Debug('supersave:db:sqlite:history');
+
+export function getHistoryTableName(tableName: string): string {
+  return `${tableName}_history`;
+}
+
+/**
+ * Creates the table in which the changes to an entity with history are recorded. The table is kept when the history
+ * is no longer enabled, so the recorded changes are not lost.
+ */
+export default function syncHistory(
+  entity: EntityDefinition,
+  tableName: string,
+  connection: SqliteDatabase
+): void {
+  if (!entity.history) {
+    return;
+  }
+
+  const historyTableName = getHistoryTableName(tableName);
+  debug(`Creating history table ${historyTableName}.`);
+  connection.exec(
+    `CREATE TABLE IF NOT EXISTS ${historyTableName} (id INTEGER PRIMARY KEY AUTOINCREMENT, entity_id TEXT NOT NULL, operation TEXT NOT NULL, contents JSON NOT NULL, recorded_at TEXT NOT NULL, actor TEXT NULL)`
+  );
+  connection.exec(
+    `CREATE INDEX IF NOT EXISTS idx_${historyTableName}_entity_id ON ${historyTableName}(entity_id, id)`
+  );
+}
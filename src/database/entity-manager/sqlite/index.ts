@@ -1,17 +1,28 @@
-import type { Database } from 'better-sqlite3';
 import type { Debugger } from 'debug';
 import Debug from 'debug';
 import slug from 'slug';
 import type { BaseEntity, EntityDefinition } from '../../types.js';
-import EntityManager, { type AddEntityOptions } from '../entity-manager.js';
+import EntityManager, {
+  type AddEntityOptions,
+  type Transaction,
+} from '../entity-manager.js';
+import Lock from '../lock.js';
 import type BaseRepository from '../repository.js';
+import { getManagedFields } from '../utils.js';
+import type { SqliteDatabase } from './connection.js';
+import syncHistory from './history.js';
 import Repository from './repository.js';
+import syncSearch from './search.js';
 import sync from './sync.js';
+import syncUniqueIndexes from './unique.js';
+import { withSavepoint } from './utils.js';
 
 const debug: Debugger = Debug('supersave:db:em:sqlite');
 
 class SqliteEntityManager extends EntityManager {
-  constructor(private readonly connection: Database) {
+  private readonly lock = new Lock();
+
+  constructor(private readonly connection: SqliteDatabase) {
     super();
   }
 
@@ -21,6 +32,7 @@ class SqliteEntityManager extends EntityManager {
   ): Promise<BaseRepository<T>> {
     const { filterSortFields = {} } = entity;
     filterSortFields.id = 'string';
+    Object.assign(filterSortFields, getManagedFields(entity));
 
     const updatedEntity: EntityDefinition = {
       ...entity,
@@ -38,7 +50,9 @@ class SqliteEntityManager extends EntityManager {
       updatedEntity,
       tableName,
       (name: string, namespace?: string) => this.getRepository(name, namespace),
-      this.connection
+      () => this.getDefinitions(),
+      this.connection,
+      this.lock
     );
 
     if (!options.skipSync) {
@@ -50,16 +64,39 @@ class SqliteEntityManager extends EntityManager {
         (name: string, namespace?: string) =>
           this.getRepository(name, namespace)
       );
+      syncSearch(updatedEntity, tableName, this.connection);
+      syncUniqueIndexes(updatedEntity, tableName, this.connection);
+      syncHistory(updatedEntity, tableName, this.connection);
     }
 
     this.repositories.set(fullEntityName, repository);
+    this.definitions.set(fullEntityName, updatedEntity);
     return this.getRepository(entity.name, entity.namespace);
   }
 
-  public getEngineType(): 'mysql' | 'sqlite' {
+  public getEngineType(): 'mysql' | 'sqlite' | 'postgres' | 'memory' {
     return 'sqlite';
   }
 
+  /**
+   * Sqlite has a single connection, so the transaction is implemented using savepoints. This
+   * also allows transactions to be nested, a nested rollback only reverts its own changes.
+   * Other transactions and the writes made outside of the transaction wait until it is done.
+   */
+  public transaction<R>(
+    callback: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    return this.lock.run(() =>
+      withSavepoint(this.connection, () =>
+        callback({
+          getRepository: (name: string, namespace?: string) =>
+            this.getRepository(name, namespace),
+          transaction: (nestedCallback) => this.transaction(nestedCallback),
+        })
+      )
+    );
+  }
+
   protected createTable(tableName: string): Promise<void> {
     debug(`Creating table ${tableName}.`);
     this.connection.exec(
@@ -73,7 +110,7 @@ class SqliteEntityManager extends EntityManager {
     return Promise.resolve();
   }
 
-  public getConnection(): Database {
+  public getConnection(): SqliteDatabase {
     return this.connection;
   }
 }
@@ -0,0 +1,61 @@
+import { DatabaseSync, type SQLInputValue } from 'node:sqlite';
+import type { SqliteDatabase, SqliteStatement } from './connection.js';
+
+/**
+ * Provides the functions of a better-sqlite3 database that are used by the sqlite engine, using the DatabaseSync of
+ * node:sqlite.
+ */
+class NodeSqliteDatabase implements SqliteDatabase {
+  private savepointCount = 0;
+
+  constructor(private readonly database: DatabaseSync) {}
+
+  public prepare(source: string): SqliteStatement {
+    const statement = this.database.prepare(source);
+    return {
+      source,
+      run: (...params: unknown[]) => ({
+        changes: Number(statement.run(...(params as SQLInputValue[])).changes),
+      }),
+      get: (...params: unknown[]) =>
+        statement.get(...(params as SQLInputValue[])),
+      all: (...params: unknown[]) =>
+        statement.all(...(params as SQLInputValue[])),
+    };
+  }
+
+  public exec(source: string): void {
+    this.database.exec(source);
+  }
+
+  /**
+   * Returns a function that runs fn in a transaction. Like better-sqlite3 it uses a savepoint, so it can be used within
+   * a transaction that is already active.
+   */
+  public transaction(fn: () => void): () => void {
+    return () => {
+      this.savepointCount += 1;
+      const savepoint = `node_sqlite_${this.savepointCount}`;
+
+      this.database.exec(`SAVEPOINT ${savepoint}`);
+      try {
+        fn();
+        this.database.exec(`RELEASE ${savepoint}`);
+      } catch (error) {
+        this.database.exec(`ROLLBACK TO ${savepoint}`);
+        this.database.exec(`RELEASE ${savepoint}`);
+        throw error;
+      }
+    };
+  }
+
+  public close(): void {
+    this.database.close();
+  }
+}
+
+export default (filename: string): SqliteDatabase => {
+  const db = new NodeSqliteDatabase(new DatabaseSync(filename));
+  db.exec('PRAGMA journal_mode = WAL');
+  return db;
+};
@@ -1,22 +1,38 @@
-import type { Database } from 'better-sqlite3';
 import type { Debugger } from 'debug';
 import Debug from 'debug';
 import shortUuid from 'short-uuid';
+import type { SqliteDatabase, SqliteStatement } from './connection.js';
 
 const { generate } = shortUuid;
 
 import type {
   BaseEntity,
   EntityDefinition,
+  EntityRow,
+  ExpandOptions,
+  HistoryRow,
+  QueryCondition,
+  QueryCursor,
   QueryFilter,
   QuerySort,
+  Relation,
+  WriteOptions,
 } from '../../types.js';
 import { QueryOperatorEnum } from '../../types.js';
+import type Lock from '../lock.js';
 import type Query from '../query.js';
 import BaseRepository from '../repository.js';
+import { DELETED_AT_FIELD, getColumnName, VERSION_FIELD } from '../utils.js';
+import { getHistoryTableName } from './history.js';
+import { getSearchTableName } from './search.js';
+import { withSavepoint } from './utils.js';
 
 const debug: Debugger = Debug('supersave:db:sqlite:repo');
 
+// The extended result codes of SQLite for the violation of a unique index and the primary key.
+const SQLITE_CONSTRAINT_UNIQUE = 2067;
+const SQLITE_CONSTRAINT_PRIMARYKEY = 1555;
+
 class Repository<T extends BaseEntity> extends BaseRepository<T> {
   constructor(
     protected readonly definition: EntityDefinition,
@@ -25,86 +41,238 @@ class Repository<T extends BaseEntity> extends BaseRepository<T> {
       name: string,
       namespace?: string
     ) => BaseRepository<any>,
-    protected readonly connection: Database
+    protected readonly getDefinitions: () => EntityDefinition[],
+    protected readonly connection: SqliteDatabase,
+    protected readonly lock: Lock
   ) {
-    super(definition, tableName, getRepository);
+    super(definition, tableName, getRepository, getDefinitions);
+  }
+
+  protected runInTransaction<R>(
+    callback: (repository: this) => Promise<R>
+  ): Promise<R> {
+    return this.lock.run(() =>
+      withSavepoint(this.connection, () => callback(this))
+    );
   }
 
-  public async getByIds(ids: string[]): Promise<T[]> {
+  protected queryRowsByIds(ids: string[]): Promise<EntityRow[]> {
     const placeholders = ids.map(() => '?').join(',');
     const stmt = this.connection.prepare(
       `SELECT id, contents FROM ${this.tableName} WHERE id IN (${placeholders})`
     );
-    const result = stmt.all(...ids);
-    if (result) {
-      return await this.transformQueryResultRows(
-        result as { id: string; contents: string }[]
+    debug('Query for rows by ids.', stmt.source, ids.length);
+    return Promise.resolve(stmt.all(...ids) as EntityRow[]);
+  }
+
+  /**
+   * Generates the WHERE clause, including the values for its placeholders, for the filters of the query.
+   */
+  protected getWhereClause(
+    query: Query,
+    includeCursor = false
+  ): [string, (string | number)[]] {
+    const values: (string | number)[] = [];
+    const where: string[] = [];
+
+    query.getWhere().forEach((condition: QueryCondition) => {
+      const clause = this.getConditionClause(condition, values);
+      if (clause !== '') {
+        where.push(clause);
+      }
+    });
+
+    const search = query.getSearch();
+    if (search) {
+      const searchTableName = getSearchTableName(this.tableName);
+      where.push(
+        `"id" IN (SELECT id FROM ${searchTableName} WHERE ${searchTableName} MATCH ?)`
       );
+      values.push(this.getSearchTerm(search));
     }
-    return [];
+
+    const cursor = query.getAfter();
+    if (includeCursor && cursor) {
+      const [cursorCondition, cursorValues] = this.getCursorCondition(
+        query.getSort(),
+        cursor
+      );
+      where.push(cursorCondition);
+      values.push(...cursorValues);
+    }
+
+    return [where.length > 0 ? `WHERE ${where.join(' AND ')}` : '', values];
   }
 
-  public async getAll(): Promise<T[]> {
-    const stmt = this.connection.prepare(
-      `SELECT id, contents FROM ${this.tableName}`
-    );
-    const result = stmt.all();
+  /**
+   * Generates the condition for a single filter or a group of filters, adding the values for its
+   * placeholders to the provided values in the order they appear in the condition.
+   */
+  protected getConditionClause(
+    condition: QueryCondition,
+    values: (string | number)[]
+  ): string {
+    if ('filters' in condition) {
+      const clauses = condition.filters
+        .map((filter: QueryCondition) =>
+          this.getConditionClause(filter, values)
+        )
+        .filter((clause: string) => clause !== '');
+      if (clauses.length === 0) {
+        return '';
+      }
+      if (condition.operator === 'NOT') {
+        return `NOT (${clauses.join(' AND ')})`;
+      }
+      return `(${clauses.join(` ${condition.operator} `)})`;
+    }
 
-    if (result) {
-      return await this.transformQueryResultRows(
-        result as { id: string; contents: string }[]
-      );
+    const queryFilter: QueryFilter = condition;
+    let clause: string;
+    if (queryFilter.operator === QueryOperatorEnum.IN) {
+      const placeholders = queryFilter.value.map(() => '?').join(',');
+      clause = `"${getColumnName(queryFilter.field)}" IN (${placeholders})`;
+      values.push(...queryFilter.value);
+    } else if (
+      queryFilter.operator === QueryOperatorEnum.CONTAINS ||
+      queryFilter.operator === QueryOperatorEnum.CONTAINS_ANY
+    ) {
+      // The items are read from the contents, which also works for relations that are stored comma-separated in their column.
+      const items: (string | number)[] =
+        queryFilter.operator === QueryOperatorEnum.CONTAINS
+          ? [queryFilter.value]
+          : queryFilter.value;
+      clause = `EXISTS (SELECT 1 FROM json_each(contents, ?) WHERE json_each.value IN (${items
+        .map(() => '?')
+        .join(',')}))`;
+      values.push(`$.${queryFilter.field}`, ...items);
+    } else if (
+      queryFilter.operator === QueryOperatorEnum.EQUALS &&
+      (queryFilter.value === null || queryFilter.value === undefined)
+    ) {
+      // Handle null comparison - use IS NULL instead of = NULL
+      clause = `"${getColumnName(queryFilter.field)}" IS NULL`;
+    } else {
+      clause = `"${getColumnName(queryFilter.field)}" ${queryFilter.operator} ?`;
+      if (
+        this.definition.filterSortFields &&
+        this.definition.filterSortFields[queryFilter.field] === 'boolean'
+      ) {
+        values.push(['1', 1, 'true', true].includes(queryFilter.value) ? 1 : 0);
+      } else if (queryFilter.operator === QueryOperatorEnum.LIKE) {
+        values.push(`${queryFilter.value}`.replace(/\*/g, '%'));
+      } else {
+        values.push(queryFilter.value);
+      }
     }
-    return [];
+
+    return clause;
+  }
+
+  /**
+   * Converts the search term to an FTS5 query. Every word is quoted, so characters that have a special meaning
+   * in the query syntax are matched literally. A row matches when it contains all words.
+   */
+  protected getSearchTerm(search: string): string {
+    return search
+      .split(/\s+/)
+      .map((word: string) => `"${word.replace(/"/g, '""')}"`)
+      .join(' ');
   }
 
-  public async getByQuery(query: Query): Promise<T[]> {
+  /**
+   * Generates the condition that matches the rows positioned after the cursor. The rows are ordered by
+   * the sort fields, followed by the id as tiebreaker. NULL values are ordered first, as Sqlite does.
+   */
+  protected getCursorCondition(
+    sorts: QuerySort[],
+    cursor: QueryCursor
+  ): [string, (string | number)[]] {
+    if (cursor.values.length !== sorts.length) {
+      throw new TypeError('The cursor does not match the sort of the query.');
+    }
+
+    const conditions: string[] = [];
     const values: (string | number)[] = [];
-    const where: string[] = [];
+    const equals: string[] = [];
+    const equalsValues: (string | number)[] = [];
 
-    query.getWhere().forEach((queryFilter: QueryFilter) => {
-      if (queryFilter.operator === QueryOperatorEnum.IN) {
-        const placeholders = queryFilter.value.map(() => '?').join(',');
-        where.push(`"${queryFilter.field}" IN (${placeholders})`);
-        values.push(...queryFilter.value);
-      } else if (
-        queryFilter.operator === QueryOperatorEnum.EQUALS &&
-        (queryFilter.value === null || queryFilter.value === undefined)
+    sorts.forEach((sort: QuerySort, index: number) => {
+      const column = `"${getColumnName(sort.field)}" COLLATE NOCASE`;
+      let value = cursor.values[index];
+      if (
+        value !== null &&
+        this.definition.filterSortFields?.[sort.field] === 'boolean'
       ) {
-        // Handle null comparison - use IS NULL instead of = NULL
-        where.push(`"${queryFilter.field}" IS NULL`);
-      } else {
-        where.push(`"${queryFilter.field}" ${queryFilter.operator} ?`);
-        if (
-          this.definition.filterSortFields &&
-          this.definition.filterSortFields[queryFilter.field] === 'boolean'
-        ) {
-          values.push(
-            ['1', 1, 'true', true].includes(queryFilter.value) ? 1 : 0
+        value = ['1', 1, 'true', true].includes(value) ? 1 : 0;
+      }
+
+      if (value === null) {
+        // Only non-null values follow a null value in ascending order, nothing follows it in descending order.
+        if (sort.direction === 'asc') {
+          conditions.push(
+            `(${[...equals, `${column} IS NOT NULL`].join(' AND ')})`
           );
-        } else if (queryFilter.operator === QueryOperatorEnum.LIKE) {
-          values.push(`${queryFilter.value}`.replace(/\*/g, '%'));
-        } else {
-          values.push(queryFilter.value);
+          values.push(...equalsValues);
         }
+        equals.push(`${column} IS NULL`);
+      } else {
+        const after =
+          sort.direction === 'asc'
+            ? `${column} > ?`
+            : `(${column} < ? OR ${column} IS NULL)`;
+        conditions.push(`(${[...equals, after].join(' AND ')})`);
+        values.push(...equalsValues, value);
+        equals.push(`${column} = ?`);
+        equalsValues.push(value);
       }
     });
 
-    let sqlQuery = `SELECT id,contents FROM ${this.tableName}
-      ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+    conditions.push(`(${[...equals, '"id" > ?'].join(' AND ')})`);
+    values.push(...equalsValues, cursor.id);
+
+    return [`(${conditions.join(' OR ')})`, values];
+  }
+
+  public async getByQuery(
+    query: Query,
+    options: ExpandOptions = {}
+  ): Promise<T[]> {
+    const [where, values] = this.getWhereClause(query, true);
+
+    // Without a sort, search results are ordered by relevance.
+    const search = query.getSearch();
+    const orderByRank =
+      search && query.getSort().length === 0 && !query.getAfter();
+    let join = '';
+    if (orderByRank) {
+      const searchTableName = getSearchTableName(this.tableName);
+      join = `JOIN (SELECT id AS search_id, rank AS search_rank FROM ${searchTableName} WHERE ${searchTableName} MATCH ?) AS search ON search.search_id = ${this.tableName}.id`;
+      values.unshift(this.getSearchTerm(search));
+    }
+
+    let sqlQuery = `SELECT id,contents FROM ${this.tableName} ${join}
+      ${where}
     `;
-    if (query.getSort().length > 0) {
-      sqlQuery = `${sqlQuery} ORDER BY ${query
-        .getSort()
-        .map(
-          (sort: QuerySort) =>
-            `"${sort.field}" COLLATE NOCASE ${sort.direction}`
-        )
-        .join(',')}`;
+    const sorts = query
+      .getSort()
+      .map(
+        (sort: QuerySort) =>
+          `"${getColumnName(sort.field)}" COLLATE NOCASE ${sort.direction}`
+      );
+    if (orderByRank) {
+      sorts.push('search.search_rank');
+    }
+    if (sorts.length > 0 || query.getAfter()) {
+      // The id makes the order deterministic, which is required for paginating using a cursor.
+      sorts.push('"id" asc');
+    }
+    if (sorts.length > 0) {
+      sqlQuery = `${sqlQuery} ORDER BY ${sorts.join(',')}`;
     }
     if (query.getLimit()) {
       sqlQuery = `${sqlQuery} LIMIT ${
-        typeof query.getOffset() !== 'undefined'
+        typeof query.getOffset() !== 'undefined' && !query.getAfter()
           ? `${query.getOffset()},${query.getLimit()}`
           : query.getLimit()
       }`;
@@ -116,13 +284,24 @@ class Repository<T extends BaseEntity> extends BaseRepository<T> {
     debug('Found result count', result.length);
     if (result) {
       return await this.transformQueryResultRows(
-        result as { id: string; contents: string }[]
+        result as { id: string; contents: string }[],
+        options
       );
     }
     return [];
   }
 
-  public deleteUsingId(id: string): Promise<void> {
+  public count(query: Query): Promise<number> {
+    const [where, values] = this.getWhereClause(query);
+    const stmt = this.connection.prepare(
+      `SELECT COUNT(*) AS total FROM ${this.tableName} ${where}`
+    );
+    debug('Counting using query.', stmt.source, values);
+    const result = stmt.get(...values) as { total: number };
+    return Promise.resolve(result.total);
+  }
+
+  protected deleteRowUsingId(id: string): Promise<void> {
     const stmt = this.connection.prepare(
       `DELETE FROM ${this.tableName} WHERE id = ?`
     );
@@ -130,66 +309,315 @@ class Repository<T extends BaseEntity> extends BaseRepository<T> {
     return Promise.resolve();
   }
 
-  public async create(object: T): Promise<T> {
-    const columns: string[] = ['id', 'contents'];
-    const uuid = typeof object.id === 'string' ? object.id : generate();
+  protected getReferringRows(
+    relation: Relation,
+    ids: string[]
+  ): Promise<EntityRow[]> {
+    // The relation is stored as the id, or an array of ids, of the related entities.
+    const placeholders = ids.map(() => '?').join(',');
+    let where = `json_extract(contents, ?) IN (${placeholders})`;
+    let values = [`$.${relation.field}`, ...ids];
+    if (relation.multiple) {
+      where = `EXISTS (SELECT 1 FROM json_each(contents, ?) WHERE json_each.value IN (${placeholders}))`;
+    } else if (this.definition.filterSortFields?.[relation.field]) {
+      // Use the indexed column of the relation.
+      where = `"${getColumnName(relation.field)}" IN (${placeholders})`;
+      values = ids;
+    }
 
-    const valuesObj: Record<string, string | number | null> = {
-      id: uuid,
-      contents: JSON.stringify({
-        ...this.definition.template,
-        ...this.simplifyRelations(object),
-      }),
-    };
+    const stmt = this.connection.prepare(
+      `SELECT id, contents FROM ${this.tableName} WHERE ${where}`
+    );
+    debug('Query for referring rows.', stmt.source, values);
+    return Promise.resolve(stmt.all(...values) as EntityRow[]);
+  }
 
-    const columnNames = columns
-      .map((column: string) => `"${column}"`)
-      .join(',');
-    const valuePlaceholders = columns.map(() => '?').join(',');
+  protected queryRowsByQuery(query: Query): Promise<EntityRow[]> {
+    const [where, values] = this.getWhereClause(query);
     const stmt = this.connection.prepare(
-      `INSERT INTO ${this.tableName} (${columnNames}) VALUES (${valuePlaceholders})`
+      `SELECT id, contents FROM ${this.tableName} ${where}`
     );
+    debug('Query for rows by query.', stmt.source, values);
+    return Promise.resolve(stmt.all(...values) as EntityRow[]);
+  }
 
-    const insertValues = columns.map((col) => valuesObj[col]);
-    debug('Generated create query.', stmt.source, insertValues);
-    stmt.run(...insertValues);
+  protected deleteRowsByQuery(query: Query): Promise<number> {
+    const [where, values] = this.getWhereClause(query);
+    const stmt = this.connection.prepare(
+      `DELETE FROM ${this.tableName} ${where}`
+    );
+    debug('Generated delete query.', stmt.source, values);
+    return Promise.resolve(stmt.run(...values).changes);
+  }
+
+  protected setDeletedAt(
+    query: Query,
+    deletedAt: string | null
+  ): Promise<number> {
+    const [where, values] = this.getWhereClause(query);
+    let contents =
+      deletedAt === null
+        ? `json_remove(contents, '$.${DELETED_AT_FIELD}')`
+        : `json_set(contents, '$.${DELETED_AT_FIELD}', ?)`;
+    if (this.definition.versioning) {
+      contents = `json_set(${contents}, '$.${VERSION_FIELD}', COALESCE("${VERSION_FIELD}", 0) + 1)`;
+    }
+    const stmt = this.connection.prepare(
+      `UPDATE ${this.tableName} SET contents = ${contents} ${where}`
+    );
+    debug('Generated soft delete query.', stmt.source, values);
+    return Promise.resolve(
+      stmt.run(...(deletedAt === null ? values : [deletedAt, ...values]))
+        .changes
+    );
+  }
 
-    return (await this.getById(uuid)) as unknown as T;
+  protected getCreateRow(object: Omit<T, 'id'>): EntityRow {
+    return {
+      id: typeof object.id === 'string' ? object.id : generate(),
+      contents: JSON.stringify(
+        this.validate(
+          this.setManagedFields(
+            {
+              ...this.definition.template,
+              ...this.simplifyRelations(object),
+            },
+            true
+          )
+        )
+      ),
+    };
   }
 
-  public async update(object: T): Promise<T> {
-    const columns = ['contents'];
+  /**
+   * Converts the violation of a unique index or the primary key to a UniqueConstraintError, other errors are
+   * returned as is. better-sqlite3 provides the name of the error code, node:sqlite the extended result code.
+   */
+  protected convertError(error: unknown): unknown {
+    const { code, errcode } = (error ?? {}) as {
+      code?: string;
+      errcode?: number;
+    };
+    if (
+      code !== 'SQLITE_CONSTRAINT_UNIQUE' &&
+      code !== 'SQLITE_CONSTRAINT_PRIMARYKEY' &&
+      errcode !== SQLITE_CONSTRAINT_UNIQUE &&
+      errcode !== SQLITE_CONSTRAINT_PRIMARYKEY
+    ) {
+      return error;
+    }
+
+    // The message lists the columns of the index, like: UNIQUE constraint failed: planet.email, planet.name
+    const fields = (error as Error).message
+      .replace(/^.*failed: /, '')
+      .split(', ')
+      .map((column: string) => {
+        const columnName = column.substring(column.indexOf('.') + 1);
+        return (
+          Object.keys(this.definition.filterSortFields ?? {}).find(
+            (field: string) => getColumnName(field) === columnName
+          ) ?? columnName
+        );
+      });
+    return this.createUniqueConstraintError(fields);
+  }
 
-    const simplifiedObject: any = await this.simplifyRelations(object);
+  public create(object: T, options: WriteOptions = {}): Promise<T> {
+    return this.runInTransaction(async () => {
+      const row = this.getCreateRow(object);
+      const stmt = this.connection.prepare(
+        `INSERT INTO ${this.tableName} ("id","contents") VALUES (?,?)`
+      );
+
+      debug('Generated create query.', stmt.source, row);
+      try {
+        stmt.run(row.id, row.contents);
+      } catch (error) {
+        throw this.convertError(error);
+      }
+      await this.recordHistory('create', [row], options);
+
+      return (await this.getById(row.id)) as unknown as T;
+    });
+  }
+
+  public createMany(
+    objects: Omit<T, 'id'>[],
+    options: WriteOptions = {}
+  ): Promise<T[]> {
+    return this.runInTransaction(async () => {
+      const rows = objects.map((object) => this.getCreateRow(object));
+      const stmt = this.connection.prepare(
+        `INSERT INTO ${this.tableName} ("id","contents") VALUES (?,?)`
+      );
+
+      debug('Inserting multiple rows.', stmt.source, rows.length);
+      try {
+        this.connection.transaction(() => {
+          for (const row of rows) {
+            stmt.run(row.id, row.contents);
+          }
+        })();
+      } catch (error) {
+        throw this.convertError(error);
+      }
+      await this.recordHistory('create', rows, options);
+
+      // The inserted rows contain everything that is needed to construct the entities, no need to query them again.
+      return await this.transformQueryResultRows(rows);
+    });
+  }
+
+  protected getUpdateRow(object: T): EntityRow {
+    const simplifiedObject: any = this.validate(
+      this.setManagedFields(this.simplifyRelations(object) as BaseEntity, false)
+    );
     simplifiedObject.id = undefined;
 
-    const valuesObj: Record<string, string | number | boolean | null> = {
-      contents: JSON.stringify(simplifiedObject),
+    return {
       id: object.id || '',
+      contents: JSON.stringify(simplifiedObject),
     };
+  }
+
+  /**
+   * Prepares the update of the contents of a row. For an entity with versioning the row is only updated when it still
+   * has the version the entity was read with.
+   */
+  protected prepareUpdate(): SqliteStatement {
+    const versionCondition = this.definition.versioning
+      ? ` AND "${VERSION_FIELD}" IS ?`
+      : '';
+    return this.connection.prepare(
+      `UPDATE ${this.tableName} SET "contents" = ? WHERE id = ?${versionCondition}`
+    );
+  }
+
+  /**
+   * Runs the prepared update, returns false when there is no row with the id. Throws a ConflictError when the row of
+   * an entity with versioning has another version.
+   */
+  protected runUpdate(
+    stmt: SqliteStatement,
+    row: EntityRow,
+    object: T
+  ): boolean {
+    if (!this.definition.versioning) {
+      return stmt.run(row.contents, row.id).changes > 0;
+    }
+    const { changes } = stmt.run(
+      row.contents,
+      row.id,
+      this.getReadVersion(object)
+    );
+    if (changes > 0) {
+      return true;
+    }
+    // Checked synchronously, so it is part of the transaction of updateMany.
+    const stored = this.connection
+      .prepare(`SELECT id FROM ${this.tableName} WHERE id = ?`)
+      .get(row.id);
+    if (typeof stored !== 'undefined') {
+      throw this.createConflictError(row.id);
+    }
+    return false;
+  }
+
+  public update(object: T, options: WriteOptions = {}): Promise<T> {
+    return this.runInTransaction(async () => {
+      const [kept] = await this.keepStoredFields([object]);
+      const row = this.getUpdateRow(kept);
+      const stmt = this.prepareUpdate();
 
-    const setClauses = columns
-      .map((column: string) => `"${column}" = ?`)
-      .join(', ');
+      debug('Generated update query.', stmt.source, row);
+      let updated: boolean;
+      try {
+        updated = this.runUpdate(stmt, row, object);
+      } catch (error) {
+        throw this.convertError(error);
+      }
+      if (updated) {
+        await this.recordHistory('update', [row], options);
+      }
+      return (await this.queryById(object.id as string)) as unknown as T;
+    });
+  }
+
+  public updateMany(objects: T[], options: WriteOptions = {}): Promise<T[]> {
+    return this.runInTransaction(async () => {
+      const rows = (await this.keepStoredFields(objects)).map((object) =>
+        this.getUpdateRow(object)
+      );
+      const stmt = this.prepareUpdate();
+
+      debug('Updating multiple rows.', stmt.source, rows.length);
+      const updatedRows: EntityRow[] = [];
+      try {
+        this.connection.transaction(() => {
+          rows.forEach((row: EntityRow, index: number) => {
+            if (this.runUpdate(stmt, row, objects[index])) {
+              updatedRows.push(row);
+            }
+          });
+        })();
+      } catch (error) {
+        throw this.convertError(error);
+      }
+      await this.recordHistory('update', updatedRows, options);
+
+      return await this.queryUpdatedEntities(
+        updatedRows.map((row: EntityRow) => row.id)
+      );
+    });
+  }
+
+  protected insertHistoryRows(rows: HistoryRow[]): Promise<void> {
     const stmt = this.connection.prepare(
-      `UPDATE ${this.tableName} SET ${setClauses} WHERE id = ?`
+      `INSERT INTO ${getHistoryTableName(this.tableName)} (entity_id, operation, contents, recorded_at, actor) VALUES (?,?,?,?,?)`
     );
-    const updateValues = columns.map((col) => valuesObj[col]);
-    updateValues.push(valuesObj.id); // for the WHERE clause
+    debug('Inserting history rows.', stmt.source, rows.length);
+    this.connection.transaction(() => {
+      for (const row of rows) {
+        stmt.run(
+          row.entityId,
+          row.operation,
+          row.contents,
+          row.recordedAt,
+          row.actor
+        );
+      }
+    })();
+    return Promise.resolve();
+  }
 
-    debug('Generated update query.', stmt.source, updateValues);
-    stmt.run(...updateValues);
-    return (await this.queryById(object.id as string)) as unknown as T;
+  protected queryHistoryRows(
+    id: string,
+    until?: string
+  ): Promise<HistoryRow[]> {
+    const stmt = this.connection.prepare(
+      `SELECT entity_id AS entityId, operation, contents, recorded_at AS recordedAt, actor FROM ${getHistoryTableName(
+        this.tableName
+      )} WHERE entity_id = ?${typeof until === 'undefined' ? '' : ' AND recorded_at <= ?'} ORDER BY id`
+    );
+    debug('Query for history rows.', stmt.source, id);
+    return Promise.resolve(
+      stmt.all(
+        ...(typeof until === 'undefined' ? [id] : [id, until])
+      ) as HistoryRow[]
+    );
   }
 
-  protected async queryById(id: string): Promise<T | null> {
+  protected async queryById(
+    id: string,
+    options: ExpandOptions = {}
+  ): Promise<T | null> {
     const stmt = this.connection.prepare(
       `SELECT id, contents FROM ${this.tableName} WHERE id = ? LIMIT 1`
     );
     debug('Query for getById', stmt.source, id);
     const result = stmt.get(id) as { id: string; contents: string } | undefined;
     if (result) {
-      return await this.transformQueryResultRow(result);
+      return await this.transformQueryResultRow(result, options);
     }
     debug('No result for queryById().');
     return null;
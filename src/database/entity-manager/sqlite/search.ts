@@ -0,0 +1,104 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { EntityDefinition } from '../../types.js';
+import { getColumnName } from '../utils.js';
+import type { SqliteDatabase } from './connection.js';
+
+const debug: Debugger = Debug('supersave:db:sqlite:search');
+
+const TRIGGER_EVENTS = ['insert', 'update', 'delete'];
+
+export function getSearchTableName(tableName: string): string {
+  return `${tableName}_search`;
+}
+
+function getInsertStatement(
+  searchTableName: string,
+  searchFields: string[],
+  row: string
+): string {
+  const columns = searchFields.map((field) => `"${getColumnName(field)}"`);
+  const values = searchFields.map(
+    (field) => `json_extract(${row}contents, '$.${field}')`
+  );
+  return `INSERT INTO ${searchTableName} (id, ${columns.join(',')}) SELECT ${row}id, ${values.join(',')}`;
+}
+
+/**
+ * Maintains the FTS5 table that is used to search an entity on its `searchFields`. The table is kept up to date
+ * using triggers on the entity table. When the search fields change, or the triggers are missing because the
+ * entity table was recreated, the table is rebuilt from the contents.
+ */
+export default function syncSearch(
+  entity: EntityDefinition,
+  tableName: string,
+  connection: SqliteDatabase
+): void {
+  const searchTableName = getSearchTableName(tableName);
+  const searchFields = entity.searchFields ?? [];
+  const triggerNames = TRIGGER_EVENTS.map(
+    (event) => `${searchTableName}_${event}`
+  );
+
+  const existingColumns = (
+    connection.prepare(`pragma table_info('${searchTableName}');`).all() as {
+      name: string;
+    }[]
+  ).map((column) => column.name);
+  const existingTriggers = (
+    connection
+      .prepare(
+        `SELECT name FROM sqlite_master WHERE type='trigger' AND tbl_name=?`
+      )
+      .all(tableName) as { name: string }[]
+  ).map((trigger) => trigger.name);
+
+  if (searchFields.length === 0) {
+    if (existingColumns.length > 0) {
+      debug(`No searchFields defined, dropping ${searchTableName}.`);
+      for (const triggerName of triggerNames) {
+        connection.exec(`DROP TRIGGER IF EXISTS ${triggerName}`);
+      }
+      connection.exec(`DROP TABLE ${searchTableName}`);
+    }
+    return;
+  }
+
+  const expectedColumns = ['id', ...searchFields.map(getColumnName)];
+  if (
+    existingColumns.join(',') === expectedColumns.join(',') &&
+    triggerNames.every((triggerName) => existingTriggers.includes(triggerName))
+  ) {
+    debug('Search table has not changed, not making changes.');
+    return;
+  }
+
+  debug(`Rebuilding search table ${searchTableName}.`);
+  connection.transaction(() => {
+    for (const triggerName of triggerNames) {
+      connection.exec(`DROP TRIGGER IF EXISTS ${triggerName}`);
+    }
+    connection.exec(`DROP TABLE IF EXISTS ${searchTableName}`);
+    connection.exec(
+      `CREATE VIRTUAL TABLE ${searchTableName} USING fts5(id UNINDEXED, ${expectedColumns
+        .slice(1)
+        .map((column) => `"${column}"`)
+        .join(',')})`
+    );
+    connection.exec(
+      `${getInsertStatement(searchTableName, searchFields, '')} FROM ${tableName}`
+    );
+
+    const [insertTrigger, updateTrigger, deleteTrigger] = triggerNames;
+    const deleteStatement = `DELETE FROM ${searchTableName} WHERE id = old.id`;
+    connection.exec(
+      `CREATE TRIGGER ${insertTrigger} AFTER INSERT ON ${tableName} BEGIN ${getInsertStatement(searchTableName, searchFields, 'new.')}; END`
+    );
+    connection.exec(
+      `CREATE TRIGGER ${updateTrigger} AFTER UPDATE ON ${tableName} BEGIN ${deleteStatement}; ${getInsertStatement(searchTableName, searchFields, 'new.')}; END`
+    );
+    connection.exec(
+      `CREATE TRIGGER ${deleteTrigger} AFTER DELETE ON ${tableName} BEGIN ${deleteStatement}; END`
+    );
+  })();
+}
@@ -1,9 +1,10 @@
-import type { Database } from 'better-sqlite3';
 import type { Debugger } from 'debug';
 import Debug from 'debug';
 import type { EntityDefinition, FilterSortField } from '../../types.js';
+import Lock from '../lock.js';
 import type BaseRepository from '../repository.js';
-import { isEqual } from '../utils.js';
+import { getColumnName, isEqual } from '../utils.js';
+import type { SqliteDatabase } from './connection.js';
 import Repository from './repository.js';
 
 const debug: Debugger = Debug('supersave:db:sync');
@@ -11,6 +12,9 @@ const debug: Debugger = Debug('supersave:db:sync');
 enum SqliteType {
   TEXT = 'TEXT',
   INTEGER = 'INTEGER',
+  REAL = 'REAL',
+  DATE = 'DATE',
+  DATETIME = 'DATETIME',
   BOOLEAN = 'INTEGER',
   JSON = 'JSON',
 }
@@ -26,11 +30,15 @@ type SqlitePragmaColumn = {
 const filterSortFieldSqliteTypeMap = {
   string: SqliteType.TEXT,
   number: SqliteType.INTEGER,
+  float: SqliteType.REAL,
   boolean: SqliteType.BOOLEAN,
+  date: SqliteType.DATE,
+  datetime: SqliteType.DATETIME,
+  'string[]': SqliteType.JSON,
 };
 
 function getContentsColumnType(
-  connection: Database,
+  connection: SqliteDatabase,
   tableName: string
 ): string | null {
   const query = `pragma table_info('${tableName}');`;
@@ -46,7 +54,7 @@ function getContentsColumnType(
 }
 
 function getTableColumns(
-  connection: Database,
+  connection: SqliteDatabase,
   tableName: string,
   entity: EntityDefinition
 ): Record<string, SqliteType> {
@@ -66,6 +74,9 @@ function getTableColumns(
   const sqliteTypeMap: Record<SqliteType, FilterSortField> = {
     [SqliteType.TEXT]: 'string',
     [SqliteType.INTEGER]: 'number',
+    [SqliteType.REAL]: 'float',
+    [SqliteType.DATE]: 'date',
+    [SqliteType.DATETIME]: 'datetime',
     [SqliteType.JSON]: 'string', // JSON is stored as TEXT in SQLite
     // [SqliteType.BOOLEAN]: 'number', Its also maps to integer
   };
@@ -109,7 +120,7 @@ function mapFilterSortFieldsToColumns(
           `Unsupported filter type "${filter}" for "${fieldName}"`
         );
       }
-      result[fieldName] = filterSortFieldSqliteTypeMap[filter];
+      result[getColumnName(fieldName)] = filterSortFieldSqliteTypeMap[filter];
     }
   );
 
@@ -120,7 +131,7 @@ function mapFilterSortFieldsToColumns(
  * Check if a column is a generated column by checking the table definition
  */
 function isColumnGenerated(
-  connection: Database,
+  connection: SqliteDatabase,
   tableName: string,
   columnName: string
 ): boolean {
@@ -147,7 +158,7 @@ function isColumnGenerated(
  * Get all column names that are not generated columns
  */
 function getNonGeneratedColumns(
-  connection: Database,
+  connection: SqliteDatabase,
   tableName: string,
   columnNames: string[]
 ): string[] {
@@ -188,6 +199,18 @@ function createGeneratedColumnExpression(
     return `CAST(json_extract(contents, '${jsonPath}') AS INTEGER)`;
   } else if (fieldType === 'number') {
     return `CAST(json_extract(contents, '${jsonPath}') AS INTEGER)`;
+  } else if (fieldType === 'float') {
+    return `CAST(json_extract(contents, '${jsonPath}') AS REAL)`;
+  } else if (fieldType === 'date' || fieldType === 'datetime') {
+    // date() converts values with an offset to UTC, resulting in YYYY-MM-DD. Datetimes are normalized to UTC as
+    // YYYY-MM-DD HH:MM:SS.SSS, which can be compared as text.
+    const format = fieldType === 'date' ? '%Y-%m-%d' : '%Y-%m-%d %H:%M:%f';
+    const extract = `json_extract(contents, '${jsonPath}')`;
+    // A number is read as a Julian day by SQLite, it is epoch milliseconds like in the filters of a query
+    return `CASE WHEN json_type(contents, '${jsonPath}') IN ('integer', 'real') THEN strftime('${format}', ${extract} / 1000.0, 'unixepoch') ELSE strftime('${format}', ${extract}) END`;
+  } else if (fieldType === 'string[]') {
+    // The array as JSON text, filtering on its items is done using json_each() on the contents
+    return `json_extract(contents, '${jsonPath}')`;
   } else {
     // string
     return `json_extract(contents, '${jsonPath}')`;
@@ -197,7 +220,10 @@ function createGeneratedColumnExpression(
 /**
  * Get existing indexes for a table
  */
-function getTableIndexes(connection: Database, tableName: string): string[] {
+function getTableIndexes(
+  connection: SqliteDatabase,
+  tableName: string
+): string[] {
   const query = `SELECT name FROM sqlite_master WHERE type='index' AND tbl_name=? AND name IS NOT NULL`;
   const stmt = connection.prepare(query);
   const result = stmt.all(tableName) as { name: string }[];
@@ -212,7 +238,7 @@ function getTableIndexes(connection: Database, tableName: string): string[] {
 async function migrateContentsColumn(
   entity: EntityDefinition,
   tableName: string,
-  connection: Database,
+  connection: SqliteDatabase,
   repository: Repository<any>,
   getRepository: (name: string, namespace?: string) => BaseRepository<any>
 ): Promise<boolean> {
@@ -250,10 +276,10 @@ async function migrateContentsColumn(
             entity
           );
           columns.push(
-            `"${fieldName}" ${columnType} GENERATED ALWAYS AS (${expression}) STORED NULL`
+            `"${getColumnName(fieldName)}" ${columnType} GENERATED ALWAYS AS (${expression}) STORED NULL`
           );
           indexes.push(
-            `CREATE INDEX IF NOT EXISTS idx_${fieldName} ON ${newTableName}("${fieldName}")`
+            `CREATE INDEX IF NOT EXISTS idx_${getColumnName(fieldName)} ON ${newTableName}("${getColumnName(fieldName)}")`
           );
         }
       }
@@ -274,14 +300,18 @@ async function migrateContentsColumn(
 
     // Copy the data, validating JSON during copy
     debug('Copying contents to new table with JSON validation.');
+    // The existing contents are copied as is, without validating them against the schema or recording them in the
+    // history.
     const newRepository = new Repository(
-      entity,
+      { ...entity, schema: undefined, history: false },
       newTableName,
       getRepository,
-      connection
+      () => [],
+      connection,
+      new Lock()
     );
 
-    const oldAll = await repository.getAll();
+    const oldAll = await repository.getAll({ withDeleted: true });
     for (const element of oldAll) {
       // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
       await newRepository.create(element);
@@ -303,7 +333,7 @@ async function migrateContentsColumn(
 export default async (
   entity: EntityDefinition,
   tableName: string,
-  connection: Database,
+  connection: SqliteDatabase,
 
   repository: Repository<any>,
 
@@ -333,14 +363,15 @@ export default async (
   const filterSortFieldNames = Object.keys(entity.filterSortFields).filter(
     (name) => name !== 'id'
   );
+  const filterSortColumnNames = filterSortFieldNames.map(getColumnName);
   const nonGeneratedColumns = getNonGeneratedColumns(
     connection,
     tableName,
-    filterSortFieldNames
+    filterSortColumnNames
   );
 
   // Get expected and existing indexes
-  const expectedIndexColumns = filterSortFieldNames;
+  const expectedIndexColumns = filterSortColumnNames;
   const existingIndexes = getTableIndexes(connection, tableName);
 
   // Check which indexes need to be added/removed
@@ -426,10 +457,10 @@ export default async (
       entity
     );
     columns.push(
-      `"${fieldName}" ${columnType} GENERATED ALWAYS AS (${expression}) STORED NULL`
+      `"${getColumnName(fieldName)}" ${columnType} GENERATED ALWAYS AS (${expression}) STORED NULL`
     );
     indexes.push(
-      `CREATE INDEX IF NOT EXISTS idx_${fieldName} ON ${newTableName}("${fieldName}")`
+      `CREATE INDEX IF NOT EXISTS idx_${getColumnName(fieldName)} ON ${newTableName}("${getColumnName(fieldName)}")`
     );
   }
 
@@ -447,14 +478,18 @@ export default async (
 
   // copy the fields
   debug('Copying contents to new table.');
+  // The existing contents are copied as is, without validating them against the schema or recording them in the
+  // history.
   const newRepository = new Repository(
-    entity,
+    { ...entity, schema: undefined, history: false },
     newTableName,
     getRepository,
-    connection
+    () => [],
+    connection,
+    new Lock()
   );
 
-  const oldAll = await repository.getAll();
+  const oldAll = await repository.getAll({ withDeleted: true });
   for (const element of oldAll) {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
     await newRepository.create(element);
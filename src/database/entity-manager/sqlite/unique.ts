@@ -0,0 +1,56 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { EntityDefinition } from '../../types.js';
+import {
+  getColumnName,
+  getUniqueFieldGroups,
+  getUniqueIndexName,
+  validateUniqueFields,
+} from '../utils.js';
+import type { SqliteDatabase } from './connection.js';
+
+const debug: Debugger = Debug('supersave:db:sqlite:unique');
+
+/**
+ * Creates a UNIQUE index on the generated columns for each of the `uniqueFields` of the entity, and drops the
+ * unique indexes that are no longer defined.
+ */
+export default function syncUniqueIndexes(
+  entity: EntityDefinition,
+  tableName: string,
+  connection: SqliteDatabase
+): void {
+  validateUniqueFields(entity);
+
+  const expectedIndexes = new Map<string, string[]>(
+    getUniqueFieldGroups(entity).map((fields: string[]) => [
+      getUniqueIndexName(tableName, fields),
+      fields,
+    ])
+  );
+  const existingIndexes = (
+    connection
+      .prepare(
+        `SELECT name FROM sqlite_master WHERE type='index' AND tbl_name=? AND name LIKE ?`
+      )
+      .all(tableName, `${tableName}_unique_%`) as { name: string }[]
+  ).map((index) => index.name);
+
+  for (const indexName of existingIndexes) {
+    if (!expectedIndexes.has(indexName)) {
+      debug(`Dropping unique index ${indexName}.`);
+      connection.exec(`DROP INDEX IF EXISTS "${indexName}"`);
+    }
+  }
+
+  for (const [indexName, fields] of expectedIndexes) {
+    if (!existingIndexes.includes(indexName)) {
+      debug(`Adding unique index ${indexName}.`);
+      connection.exec(
+        `CREATE UNIQUE INDEX "${indexName}" ON ${tableName} (${fields
+          .map((field: string) => `"${getColumnName(field)}"`)
+          .join(',')})`
+      );
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import type { Debugger } from 'debug';
+import Debug from 'debug';
+import type { SqliteDatabase } from './connection.js';
+
+const debug: Debugger = Debug('supersave:db:em:sqlite');
+
+let savepointCount = 0;
+
+/**
+ * Runs the callback within a savepoint, which is rolled back when the callback throws. Savepoints can be nested, a
+ * nested rollback only reverts its own changes. The callback must be run using the lock of the connection, which runs
+ * the savepoints started within a savepoint one at a time, so they never overlap.
+ */
+export async function withSavepoint<R>(
+  connection: SqliteDatabase,
+  callback: () => Promise<R>
+): Promise<R> {
+  savepointCount += 1;
+  const savepoint = `supersave_${savepointCount}`;
+
+  debug(`Starting savepoint ${savepoint}.`);
+  connection.exec(`SAVEPOINT ${savepoint}`);
+  try {
+    const result = await callback();
+    debug(`Releasing savepoint ${savepoint}.`);
+    connection.exec(`RELEASE ${savepoint}`);
+    return result;
+  } catch (error) {
+    debug(`Rolling back savepoint ${savepoint}.`);
+    connection.exec(`ROLLBACK TO ${savepoint}`);
+    connection.exec(`RELEASE ${savepoint}`);
+    throw error;
+  }
+}
@@ -1,3 +1,6 @@
+import { createHash } from 'node:crypto';
+import type { EntityDefinition, FilterSortField } from '../types.js';
+
 export function isEqual(object1: any, object2: any): boolean {
   const properties1 = Object.getOwnPropertyNames(object1);
   const properties2 = Object.getOwnPropertyNames(object2);
@@ -16,3 +19,138 @@ export function isEqual(object1: any, object2: any): boolean {
 
   return true;
 }
+
+/**
+ * The field in which the moment an entity with soft deletes was deleted is stored.
+ */
+export const DELETED_AT_FIELD = 'deletedAt';
+
+/**
+ * The fields in which the moments an entity with timestamps was created and last updated are stored.
+ */
+export const CREATED_AT_FIELD = 'createdAt';
+export const UPDATED_AT_FIELD = 'updatedAt';
+
+/**
+ * The field in which the version of an entity with versioning is stored, it is incremented on every update.
+ */
+export const VERSION_FIELD = 'version';
+
+/**
+ * Returns the fields of which the values are set by supersave, the timestamps, the soft delete marker and the version.
+ * They are added to the filterSortFields, so they are stored in indexed columns.
+ */
+export function getManagedFields(
+  entity: Pick<EntityDefinition, 'timestamps' | 'softDelete' | 'versioning'>
+): Record<string, FilterSortField> {
+  return {
+    ...(entity.timestamps
+      ? { [CREATED_AT_FIELD]: 'datetime', [UPDATED_AT_FIELD]: 'datetime' }
+      : {}),
+    ...(entity.softDelete ? { [DELETED_AT_FIELD]: 'datetime' } : {}),
+    ...(entity.versioning ? { [VERSION_FIELD]: 'number' } : {}),
+  };
+}
+
+/**
+ * Returns the name of the generated column for a filterSortField. Nested fields, like `address.city`,
+ * are stored in a column with the dots replaced by double underscores, `address__city`.
+ */
+export function getColumnName(field: string): string {
+  return field.replace(/\./g, '__');
+}
+
+/**
+ * Returns the value of a field, which can be a path to a nested field like `address.city`.
+ */
+export function getFieldValue(object: any, field: string): unknown {
+  return field
+    .split('.')
+    .reduce(
+      (value: any, key: string) =>
+        value !== null && typeof value === 'object' ? value[key] : undefined,
+      object
+    );
+}
+
+/**
+ * Normalizes a date to the value stored in the generated column of a `date` or `datetime` field: `YYYY-MM-DD`
+ * for a date and `YYYY-MM-DD HH:MM:SS.SSS` in UTC for a datetime. A datetime without an offset is read as UTC.
+ */
+export function normalizeDateValue(
+  value: unknown,
+  type: 'date' | 'datetime'
+): string {
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (
+    typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(value)
+  ) {
+    date = new Date(`${value.replace(' ', 'T')}Z`);
+  } else {
+    date = new Date(value as string | number);
+  }
+
+  if (Number.isNaN(date.getTime())) {
+    throw new TypeError(`Invalid ${type} value ${String(value)}.`);
+  }
+  const iso = date.toISOString();
+  return type === 'date'
+    ? iso.substring(0, 10)
+    : iso.replace('T', ' ').replace('Z', '');
+}
+
+/**
+ * Returns the unique constraints of an entity, each as the fields that must be unique together.
+ */
+export function getUniqueFieldGroups(entity: EntityDefinition): string[][] {
+  return (entity.uniqueFields ?? []).map((fields: string | string[]) =>
+    Array.isArray(fields) ? fields : [fields]
+  );
+}
+
+// The maximum length of an index name, a MySQL index name can have 64 characters and a Postgres one 63.
+const MAX_INDEX_NAME_LENGTH = 63;
+
+/**
+ * Returns the index name as is when it fits, a name that is too long is shortened and ends with a hash of the full
+ * name. Unlike truncating, two long names that start the same keep different index names.
+ */
+export function shortenIndexName(name: string): string {
+  if (name.length <= MAX_INDEX_NAME_LENGTH) {
+    return name;
+  }
+  const hash = createHash('sha1').update(name).digest('hex').substring(0, 8);
+  return `${name.substring(0, MAX_INDEX_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+/**
+ * Returns the name of the unique index for the fields. Sqlite shares index names between tables, so the table
+ * name is included.
+ */
+export function getUniqueIndexName(
+  tableName: string,
+  fields: string[]
+): string {
+  return shortenIndexName(
+    `${tableName}_unique_${fields.map(getColumnName).join('_')}`
+  );
+}
+
+/**
+ * Checks that all fields of the unique constraints have a generated column that can be indexed.
+ */
+export function validateUniqueFields(entity: EntityDefinition): void {
+  for (const fields of getUniqueFieldGroups(entity)) {
+    for (const field of fields) {
+      const type = entity.filterSortFields?.[field];
+      if (typeof type === 'undefined' || type === 'string[]') {
+        throw new TypeError(
+          `Unique field ${field} of ${entity.name} must be defined as a (non-array) filterSortField.`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,55 @@
+export class UniqueConstraintError extends Error {
+  constructor(
+    m: string,
+    public fields: string[]
+  ) {
+    super(m);
+
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, UniqueConstraintError.prototype);
+  }
+}
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export class ValidationError extends Error {
+  constructor(
+    m: string,
+    public issues: ValidationIssue[]
+  ) {
+    super(m);
+
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+export class RelationRestrictError extends Error {
+  constructor(
+    m: string,
+    public entity: string,
+    public field: string,
+    public ids: string[]
+  ) {
+    super(m);
+
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, RelationRestrictError.prototype);
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(
+    m: string,
+    public entity: string,
+    public id: string
+  ) {
+    super(m);
+
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, ConflictError.prototype);
+  }
+}
@@ -5,6 +5,14 @@ import dbInitializer from './entity-manager/index.js';
 
 const debug: Debugger = Debug('supersave:db');
 
+/**
+ * Returns if the running Node version has the node:sqlite module, it was added in Node 22.5.
+ */
+function hasNodeSqlite(): boolean {
+  const [major, minor] = process.versions.node.split('.').map(Number);
+  return major > 22 || (major === 22 && minor >= 5);
+}
+
 export default async (connection: string): Promise<EntityManager> => {
   debug('Got connection string', connection);
 
@@ -14,9 +22,31 @@ export default async (connection: string): Promise<EntityManager> => {
     return await dbInitializer('sqlite', { file });
   }
 
+  if (connection.substring(0, 14) === 'node-sqlite://') {
+    const file: string = connection.substring(14);
+    debug('Found node:sqlite connection string, using file', file);
+    if (!hasNodeSqlite()) {
+      throw new Error(
+        `A node-sqlite:// connection requires Node 22.5 or newer, Node ${process.versions.node} is used. Use a sqlite:// connection instead.`
+      );
+    }
+    return await dbInitializer('sqlite', { file, driver: 'node' });
+  }
+
   if (connection.substring(0, 8) === 'mysql://') {
     return await dbInitializer('mysql', { connection });
   }
 
+  if (
+    connection.substring(0, 11) === 'postgres://' ||
+    connection.substring(0, 13) === 'postgresql://'
+  ) {
+    return await dbInitializer('postgres', { connection });
+  }
+
+  if (connection.substring(0, 9) === 'memory://') {
+    return await dbInitializer('memory');
+  }
+
   throw new Error('Unrecognized connection string.');
 };
@@ -1,20 +1,126 @@
+import type { z } from 'zod';
+
 export interface Relation {
   name: string;
   namespace?: string;
   field: string;
   multiple: boolean;
+  onDelete?: RelationDeleteAction;
+  missing?: RelationMissingAction;
 }
 
-export type FilterSortField = 'string' | 'number' | 'boolean';
+/**
+ * What happens to the referring entities when the related entity is deleted.
+ */
+export type RelationDeleteAction = 'cascade' | 'restrict' | 'setNull';
+
+/**
+ * What is returned for a related entity that no longer exists. By default a relation to a single entity throws and a
+ * missing entity is omitted from a relation to multiple entities.
+ */
+export type RelationMissingAction = 'throw' | 'null' | 'keepId' | 'omit';
+
+/**
+ * A relation of the entity with the id that refers to an entity that no longer exists.
+ */
+export type DanglingReference = {
+  id: string;
+  field: string;
+  relatedId: string;
+};
+
+export type FilterSortField =
+  | 'string'
+  | 'number'
+  | 'float'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'string[]';
+
+/**
+ * A relation that is derived from the relation of another entity referring to this entity. For example, the `moons`
+ * of a planet can be derived from the `planet` relation of the moon.
+ */
+export interface InverseRelation {
+  name: string;
+  namespace?: string;
+  field: string;
+  inverseOf: string;
+}
 
 export interface EntityDefinition {
   name: string;
   template: Record<string, unknown>;
   relations: Relation[];
+  inverseRelations?: InverseRelation[];
   namespace?: string;
   filterSortFields?: Record<string, FilterSortField>;
+  searchFields?: string[];
+  uniqueFields?: (string | string[])[];
+  schema?: EntitySchema;
+  softDelete?: boolean;
+  timestamps?: boolean;
+  versioning?: boolean;
+  history?: boolean;
 }
 
+/**
+ * A zod object describing the contents of an entity, used to validate it before it is stored.
+ */
+export type EntitySchema = z.ZodObject<z.ZodRawShape, z.core.$ZodObjectConfig>;
+
+/**
+ * The type of the entities stored using the schema.
+ */
+export type SchemaEntity<S extends EntitySchema> = z.output<S> & { id: string };
+
+/**
+ * Controls which relations are filled in with the related entities when reading. By default all relations are
+ * expanded. `expand` lists the relation paths to expand, like `planet` or `planet.star`, and `depth` limits the number
+ * of nested levels. Relations that are not expanded contain the ids of the related entities.
+ */
+export type ExpandOptions = {
+  expand?: string[];
+  depth?: number;
+};
+
+/**
+ * The options for retrieving entities. `withDeleted` includes the entities that are soft deleted.
+ */
+export type GetOptions = ExpandOptions & {
+  withDeleted?: boolean;
+};
+
+/**
+ * The options for writing entities. `actor` is the id of who makes the change, it is recorded in the history of an
+ * entity with history.
+ */
+export type WriteOptions = {
+  actor?: string;
+};
+
+/**
+ * The options for deleting an entity. With `version`, the entity is only deleted when it still has this version,
+ * a ConflictError is thrown when it was changed.
+ */
+export type DeleteOptions = WriteOptions & {
+  version?: number | null;
+};
+
+export type HistoryOperation = 'create' | 'update' | 'delete';
+
+/**
+ * A change in the history of an entity. `entity` is the entity as it was stored after the change, or before it was
+ * deleted. Its relations contain the ids of the related entities.
+ */
+export type HistoryEntry = {
+  operation: HistoryOperation;
+  entity: BaseEntity;
+  recordedAt: string;
+  actor: string | null;
+};
+
 export interface BaseEntity {
   id?: string;
 
@@ -27,6 +133,17 @@ export interface EntityRow {
   [key: string]: any;
 }
 
+/**
+ * A row of the history table of an entity, ordered by the moment it was recorded.
+ */
+export interface HistoryRow {
+  entityId: string;
+  operation: HistoryOperation;
+  contents: string | object;
+  recordedAt: string;
+  actor: string | null;
+}
+
 export enum QueryOperatorEnum {
   EQUALS = '=',
   GREATER_THAN = '>',
@@ -35,6 +152,8 @@ export enum QueryOperatorEnum {
   LESS_THAN_EQUALS = '<=',
   IN = 'IN',
   LIKE = 'LIKE',
+  CONTAINS = 'CONTAINS',
+  CONTAINS_ANY = 'CONTAINS_ANY',
 }
 
 export type QueryFilter = {
@@ -43,9 +162,24 @@ export type QueryFilter = {
   value: QueryFilterValue;
 };
 
+export type QueryFilterGroup = {
+  operator: 'AND' | 'OR' | 'NOT';
+  filters: QueryCondition[];
+};
+
+export type QueryCondition = QueryFilter | QueryFilterGroup;
+
 export type QuerySort = {
   field: string;
   direction: 'asc' | 'desc';
 };
 
 export type QueryFilterValue = string | number | any;
+
+/**
+ * Position in an ordered result set, the values of the sort fields and the id of the last row.
+ */
+export type QueryCursor = {
+  values: QueryFilterValue[];
+  id: string;
+};
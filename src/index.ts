@@ -2,8 +2,32 @@ import SuperSave from './super-save.js';
 
 export { HookError } from './collection/error/index.js';
 export type { Collection, Hooks, HttpContext } from './collection/types.js';
+export type { Transaction } from './database/entity-manager/index.js';
 export { Query, Repository } from './database/entity-manager/index.js';
-export type { BaseEntity, EntityDefinition } from './database/types.js';
+export type { ValidationIssue } from './database/error/index.js';
+export {
+  ConflictError,
+  RelationRestrictError,
+  UniqueConstraintError,
+  ValidationError,
+} from './database/error/index.js';
+export type {
+  BaseEntity,
+  DanglingReference,
+  DeleteOptions,
+  EntityDefinition,
+  EntitySchema,
+  ExpandOptions,
+  GetOptions,
+  HistoryEntry,
+  HistoryOperation,
+  InverseRelation,
+  Relation,
+  RelationDeleteAction,
+  RelationMissingAction,
+  SchemaEntity,
+  WriteOptions,
+} from './database/types.js';
 export type { Migration } from './super-save.js';
 
 export { SuperSave };
@@ -2,10 +2,18 @@ import type { IncomingMessage, ServerResponse } from 'node:http';
 import CollectionHttp from './collection/http/index.js';
 import CollectionManager from './collection/manager/index.js';
 import type { Collection } from './collection/types.js';
-import type { EntityManager } from './database/entity-manager/index.js';
+import type {
+  EntityManager,
+  Transaction,
+} from './database/entity-manager/index.js';
 import type Repository from './database/entity-manager/repository.js';
 import database from './database/index.js';
-import type { BaseEntity, EntityDefinition } from './database/types.js';
+import type {
+  BaseEntity,
+  EntityDefinition,
+  EntitySchema,
+  SchemaEntity,
+} from './database/types.js';
 
 type HandlerType = (request: Request) => Promise<Response>;
 type NodeHandlerType = (req: IncomingMessage, res: ServerResponse) => void;
@@ -13,7 +21,7 @@ type NodeHandlerType = (req: IncomingMessage, res: ServerResponse) => void;
 export interface Migration {
   name: string;
   run: (ss: SuperSave) => Promise<void>;
-  engine?: 'mysql' | 'sqlite';
+  engine?: 'mysql' | 'sqlite' | 'postgres' | 'memory';
 }
 
 export interface SuperSaveOptions {
@@ -61,9 +69,43 @@ class SuperSave {
     const insertSql =
       engineType === 'mysql'
         ? 'INSERT IGNORE INTO _supersave_migrations (name) VALUES (?)'
-        : 'INSERT OR IGNORE INTO _supersave_migrations (name) VALUES (?)';
+        : engineType === 'postgres'
+          ? 'INSERT INTO _supersave_migrations (name) VALUES ($1) ON CONFLICT DO NOTHING'
+          : 'INSERT OR IGNORE INTO _supersave_migrations (name) VALUES (?)';
 
-    if (engineType === 'mysql') {
+    if (engineType === 'memory') {
+      // The executed migrations are kept in a table of the in-memory database, like the other engines do.
+      const db = this.em.getConnection();
+      if (!db.has('_supersave_migrations')) {
+        db.set('_supersave_migrations', new Map());
+      }
+      const executed = db.get('_supersave_migrations');
+
+      for (const migration of migrations) {
+        if (migration.engine && migration.engine !== engineType) {
+          continue;
+        }
+
+        if (!executed.has(migration.name)) {
+          executed.set(migration.name, migration.name);
+          await migration.run(this);
+        }
+      }
+    } else if (engineType === 'postgres') {
+      const pool = this.em.getConnection();
+      await pool.query(createTableSql);
+
+      for (const migration of migrations) {
+        if (migration.engine && migration.engine !== engineType) {
+          continue;
+        }
+
+        const result = await pool.query(insertSql, [migration.name]);
+        if (result.rowCount > 0) {
+          await migration.run(this);
+        }
+      }
+    } else if (engineType === 'mysql') {
       const pool = this.em.getConnection();
       await pool.query(createTableSql);
 
@@ -94,12 +136,30 @@ class SuperSave {
     }
   }
 
+  /**
+   * Adds the entity, the type of the entities is inferred from the schema when one is provided.
+   */
+  public addEntity<S extends EntitySchema>(
+    entity: Omit<EntityDefinition, 'schema'> & { schema: S }
+  ): Promise<Repository<SchemaEntity<S>>>;
+  public addEntity<T extends BaseEntity>(
+    entity: EntityDefinition
+  ): Promise<Repository<T>>;
   public addEntity<T extends BaseEntity>(
     entity: EntityDefinition
   ): Promise<Repository<T>> {
     return this.em.addEntity<T>(entity, { skipSync: this.options.skipSync });
   }
 
+  /**
+   * Adds the collection, the type of the entities is inferred from the schema when one is provided.
+   */
+  public async addCollection<S extends EntitySchema>(
+    collection: Omit<Collection, 'schema'> & { schema: S }
+  ): Promise<Repository<SchemaEntity<S>>>;
+  public async addCollection<T extends BaseEntity>(
+    collection: Collection
+  ): Promise<Repository<T>>;
   public async addCollection<T extends BaseEntity>(
     collection: Collection
   ): Promise<Repository<T>> {
@@ -111,12 +171,20 @@ class SuperSave {
       filterSortFields,
     };
 
-    const repository: Repository<T> = await this.addEntity({
+    const repository: Repository<T> = await this.addEntity<T>({
       name: updatedCollection.name,
       namespace: updatedCollection.namespace,
       template: updatedCollection.template as Record<string, unknown>,
       relations: updatedCollection.relations,
+      inverseRelations: updatedCollection.inverseRelations,
       filterSortFields: updatedCollection.filterSortFields,
+      searchFields: updatedCollection.searchFields,
+      uniqueFields: updatedCollection.uniqueFields,
+      schema: updatedCollection.schema,
+      softDelete: updatedCollection.softDelete,
+      timestamps: updatedCollection.timestamps,
+      versioning: updatedCollection.versioning,
+      history: updatedCollection.history,
     });
     const managedCollection = { ...updatedCollection, repository };
     this.collectionManager.addCollection(managedCollection);
@@ -133,6 +201,23 @@ class SuperSave {
     return this.em.getRepository<T>(entityName, namespace);
   }
 
+  /**
+   * Runs the callback within a database transaction. Repositories retrieved using
+   * `transaction.getRepository()` are bound to the transaction. If the callback throws,
+   * all changes made within the transaction are rolled back and the error is rethrown.
+   *
+   * @example
+   * await superSave.transaction(async (tx) => {
+   *   const planet = await tx.getRepository<Planet>('planet').create({ name: 'Earth' });
+   *   await tx.getRepository<Moon>('moon').create({ name: 'Moon', planet });
+   * });
+   */
+  public transaction<R>(
+    callback: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    return this.em.transaction(callback);
+  }
+
   private ensureHttpInitialized(prefix = '/'): CollectionHttp {
     const normalizedPrefix =
       prefix.charAt(prefix.length - 1) === '/'
@@ -2,6 +2,7 @@ import http from 'node:http';
 import express from 'express';
 import supertest from 'supertest';
 import { beforeEach, describe, expect, test } from 'vitest';
+import { z } from 'zod';
 import { type Repository, SuperSave } from '../../../../dist/index.js';
 import getConnection from '../../../connection.js';
 import { planetCollection } from '../../../entities.js';
@@ -36,6 +37,78 @@ describe('Express adapter', () => {
     expect(planets[0].name).toBe(planet.name);
     await superSave.close();
   });
+
+  test('creating a duplicate of a unique field returns a conflict', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    await superSave.addCollection<Planet>({
+      ...planetCollection,
+      filterSortFields: { name: 'string' },
+      uniqueFields: ['name'],
+    });
+    app.use('/', superSave.getNodeHandler());
+
+    await supertest(app).post('/planets').send({ name: 'Jupiter' }).expect(200);
+    const response = await supertest(app)
+      .post('/planets')
+      .send({ name: 'Jupiter' })
+      .expect('Content-Type', /json/)
+      .expect(409);
+    expect(response.body.message).toContain('name');
+    await superSave.close();
+  });
+
+  test('creating an invalid item returns the validation issues', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository = await superSave.addCollection({
+      ...planetCollection,
+      schema: z.object({ name: z.string().min(1), distance: z.number() }),
+    });
+    app.use('/', superSave.getNodeHandler());
+
+    const response = await supertest(app)
+      .post('/planets')
+      .send({ name: 'Jupiter', distance: 'far' })
+      .expect('Content-Type', /json/)
+      .expect(422);
+    expect(response.body.issues).toHaveLength(1);
+    expect(response.body.issues[0].path).toBe('distance');
+    expect(await planetRepository.getAll()).toHaveLength(0);
+    await superSave.close();
+  });
+});
+
+describe('managed fields', () => {
+  test('the managed fields cannot be set when creating an item', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        timestamps: true,
+        softDelete: true,
+      });
+    app.use('/', superSave.getNodeHandler());
+
+    const response = await supertest(app)
+      .post('/planets')
+      .send({
+        name: 'Jupiter',
+        createdAt: '1999-01-01T00:00:00.000Z',
+        deletedAt: '1999-01-01T00:00:00.000Z',
+      })
+      .expect(200);
+
+    expect(response.body.data.createdAt).not.toBe('1999-01-01T00:00:00.000Z');
+    const stored = await planetRepository.getById(response.body.data.id);
+    expect(stored?.name).toBe('Jupiter');
+    expect(stored?.deletedAt).toBeUndefined();
+    await superSave.close();
+  });
 });
 
 describe('Node HTTP adapter', () => {
@@ -4,9 +4,9 @@ import supertest from 'supertest';
 import { beforeEach, describe, expect, test } from 'vitest';
 import { type Repository, SuperSave } from '../../../../dist/index.js';
 import getConnection from '../../../connection.js';
-import { planetCollection } from '../../../entities.js';
+import { moonCollection, planetCollection } from '../../../entities.js';
 import { clear } from '../../../mysql.js';
-import type { Planet } from '../../../types.js';
+import type { Moon, Planet } from '../../../types.js';
 
 beforeEach(clear);
 
@@ -39,6 +39,92 @@ describe('Express adapter', () => {
     await supertest(app).delete('/planets/foo').expect(204);
     await superSave.close();
   });
+
+  test('deleting a restricted item returns a conflict', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository: Repository<Planet> =
+      await superSave.addCollection<Planet>(planetCollection);
+    const moonRepository: Repository<Moon> =
+      await superSave.addCollection<Moon>({
+        ...moonCollection,
+        relations: [{ ...moonCollection.relations[0], onDelete: 'restrict' }],
+      });
+    app.use('/', superSave.getNodeHandler());
+
+    const planet = await planetRepository.create({ name: 'Earth' });
+    await moonRepository.create({ name: 'Moon', planet });
+
+    const response = await supertest(app)
+      .delete(`/planets/${planet.id}`)
+      .expect('Content-Type', /json/)
+      .expect(409);
+    expect(response.body.message).toContain('moon');
+    expect(await planetRepository.getAll()).toHaveLength(1);
+    await superSave.close();
+  });
+
+  test('a soft deleted item is only returned with withDeleted', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        softDelete: true,
+        hooks: [
+          {
+            withDeleted: (_collection, ctx) =>
+              ctx.request?.headers.get('authorization') === 'admin',
+          },
+        ],
+      });
+    const planet = await planetRepository.create({ name: 'Earth' });
+    app.use('/', superSave.getNodeHandler());
+
+    await supertest(app).delete(`/planets/${planet.id}`).expect(204);
+
+    await supertest(app).get(`/planets/${planet.id}`).expect(404);
+    const response = await supertest(app).get('/planets').expect(200);
+    expect(response.body.data).toHaveLength(0);
+    // the filter excluding the deleted items is not one of the requested filters
+    expect(response.body.meta.filters).toEqual([]);
+
+    const deleted = await supertest(app)
+      .get(`/planets/${planet.id}?withDeleted=true`)
+      .set('Authorization', 'admin')
+      .expect(200);
+    expect(deleted.body.data.name).toBe('Earth');
+    expect(deleted.body.data.deletedAt).toBeDefined();
+    const all = await supertest(app)
+      .get('/planets?withDeleted=true')
+      .set('Authorization', 'admin')
+      .expect(200);
+    expect(all.body.data).toHaveLength(1);
+    await superSave.close();
+  });
+
+  test('withDeleted is rejected unless a hook allows it', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        softDelete: true,
+        hooks: [{ withDeleted: () => false }],
+      });
+    const planet = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.deleteUsingId(planet.id);
+    app.use('/', superSave.getNodeHandler());
+
+    await supertest(app)
+      .get(`/planets/${planet.id}?withDeleted=true`)
+      .expect(403);
+    await supertest(app).get('/planets?withDeleted=true').expect(403);
+    await superSave.close();
+  });
 });
 
 describe('Node HTTP adapter', () => {
@@ -173,3 +173,179 @@ test('not existing filters', async () => {
   expect(response.body.message).toBe('Cannot filter on not defined field foo.');
   await superSave.close();
 });
+
+test('filter using an or expression', async () => {
+  const [app, superSave]: [express.Application, SuperSave] =
+    await appForFilter();
+
+  const response = await supertest(app)
+    .get('/planets')
+    .query({ filter: 'or(name=Mars,distance[>=]=2000)', sort: 'name' })
+    .expect('Content-Type', /json/)
+    .expect(200);
+
+  expect(response.body.data.map((planet: Planet) => planet.name)).toEqual([
+    'Jupiter',
+    'Mars',
+  ]);
+  await superSave.close();
+});
+
+test('filter using a nested expression combined with other filters', async () => {
+  const [app, superSave]: [express.Application, SuperSave] =
+    await appForFilter();
+
+  const response = await supertest(app)
+    .get('/planets')
+    .query({
+      'distance[>]': '0',
+      filter: 'not(or(name="Jupiter", and(name[in]="Earth,Venus",distance=5)))',
+    })
+    .expect('Content-Type', /json/)
+    .expect(200);
+
+  expect(response.body.data).toHaveLength(1);
+  expect(response.body.data[0].name).toBe('Earth');
+  await superSave.close();
+});
+
+test('multiple filter expressions are combined', async () => {
+  const [app, superSave]: [express.Application, SuperSave] =
+    await appForFilter();
+
+  const response = await supertest(app)
+    .get('/planets?filter=or(name=Mars,name=Earth)&filter=not(name=Mars)')
+    .expect('Content-Type', /json/)
+    .expect(200);
+
+  expect(response.body.data).toHaveLength(1);
+  expect(response.body.data[0].name).toBe('Earth');
+  await superSave.close();
+});
+
+test('malformed filter expressions are rejected', async () => {
+  const [app, superSave]: [express.Application, SuperSave] =
+    await appForFilter();
+
+  const missingParenthesis = await supertest(app)
+    .get('/planets')
+    .query({ filter: 'or(name=Mars,name=Earth' })
+    .expect('Content-Type', /json/)
+    .expect(400);
+  expect(missingParenthesis.body.message).toBe(
+    'Invalid filter expression at position 23: expected ")" but found the end of the expression.'
+  );
+
+  const unknownField = await supertest(app)
+    .get('/planets')
+    .query({ filter: 'or(name=Mars,foo=bar)' })
+    .expect(400);
+  expect(unknownField.body.message).toBe(
+    'Invalid filter expression at position 13: Cannot filter on not defined field foo.'
+  );
+
+  const unknownGroup = await supertest(app)
+    .get('/planets')
+    .query({ filter: 'xor(name=Mars)' })
+    .expect(400);
+  expect(unknownGroup.body.message).toContain('unknown group "xor"');
+  await superSave.close();
+});
+
+test('filter and sort on a nested field', async () => {
+  const app: express.Application = express();
+  const superSave = await SuperSave.create(getConnection());
+  const repository: Repository<Planet> = await superSave.addCollection<Planet>({
+    ...planetCollection,
+    filterSortFields: { 'orbit.star': 'string', 'orbit.days': 'number' },
+  });
+  app.use('/', superSave.getNodeHandler());
+  await repository.create({ name: 'Mars', orbit: { star: 'Sun', days: 687 } });
+  await repository.create({
+    name: 'Earth',
+    orbit: { star: 'Sun', days: 365 },
+  });
+  await repository.create({
+    name: 'Proxima b',
+    orbit: { star: 'Proxima Centauri', days: 11 },
+  });
+
+  const response = await supertest(app)
+    .get('/planets')
+    .query({ 'orbit.star': 'Sun', sort: '-orbit.days' })
+    .expect('Content-Type', /json/)
+    .expect(200);
+
+  expect(response.body.data.map((planet: Planet) => planet.name)).toEqual([
+    'Mars',
+    'Earth',
+  ]);
+  await superSave.close();
+});
+
+test('filter a datetime using ISO strings', async () => {
+  const app: express.Application = express();
+  const superSave = await SuperSave.create(getConnection());
+  const repository: Repository<Planet> = await superSave.addCollection<Planet>({
+    ...planetCollection,
+    filterSortFields: { discoveredAt: 'datetime' },
+  });
+  app.use('/', superSave.getNodeHandler());
+  await repository.create({
+    name: 'Uranus',
+    discoveredAt: '1781-03-13T22:00:00+01:00',
+  });
+  await repository.create({
+    name: 'Neptune',
+    discoveredAt: '1846-09-23T23:00:00Z',
+  });
+
+  const response = await supertest(app)
+    .get('/planets')
+    .query({
+      'discoveredAt[>]': '1781-03-13T21:30:00Z',
+      'discoveredAt[<]': '1846-09-24T02:00:00+02:00',
+    })
+    .expect('Content-Type', /json/)
+    .expect(200);
+  expect(response.body.data.map((planet: Planet) => planet.name)).toEqual([
+    'Neptune',
+  ]);
+
+  await supertest(app)
+    .get('/planets')
+    .query({ 'discoveredAt[>]': 'not a date' })
+    .expect(400);
+  await superSave.close();
+});
+
+test('filter on the items of an array', async () => {
+  const app: express.Application = express();
+  const superSave = await SuperSave.create(getConnection());
+  const repository: Repository<Planet> = await superSave.addCollection<Planet>({
+    ...planetCollection,
+    filterSortFields: { name: 'string', tags: 'string[]' },
+  });
+  app.use('/', superSave.getNodeHandler());
+  await repository.create({ name: 'Earth', tags: ['rocky', 'inner'] });
+  await repository.create({ name: 'Jupiter', tags: ['gas', 'outer'] });
+  await repository.create({ name: 'Pluto', tags: ['dwarf'] });
+
+  const response = await supertest(app)
+    .get('/planets')
+    .query({ 'tags[has]': 'gas' })
+    .expect(200);
+  expect(response.body.data.map((planet: Planet) => planet.name)).toEqual([
+    'Jupiter',
+  ]);
+
+  const anyResponse = await supertest(app)
+    .get('/planets')
+    .query({ 'tags[has]': 'dwarf,rocky', sort: 'name' })
+    .expect(200);
+  expect(anyResponse.body.data.map((planet: Planet) => planet.name)).toEqual([
+    'Earth',
+    'Pluto',
+  ]);
+  await superSave.close();
+});
@@ -0,0 +1,97 @@
+import express from 'express';
+import supertest from 'supertest';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type Repository, SuperSave } from '../../../../dist/index.js';
+import getConnection from '../../../connection.js';
+import { planetCollection } from '../../../entities.js';
+import { clear } from '../../../mysql.js';
+import type { Planet } from '../../../types.js';
+
+beforeEach(clear);
+
+describe('Express adapter', () => {
+  test('the history of an item records the actor', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    await superSave.addCollection<Planet>({
+      ...planetCollection,
+      history: true,
+      hooks: [
+        {
+          actor: (_collection, ctx) =>
+            ctx.request?.headers.get('x-user') ?? undefined,
+        },
+      ],
+    });
+    app.use('/', superSave.getNodeHandler());
+
+    const created = await supertest(app)
+      .post('/planets')
+      .set('X-User', 'alice')
+      .send({ name: 'Jupiter' })
+      .expect(200);
+    const { id } = created.body.data;
+    await supertest(app)
+      .patch(`/planets/${id}`)
+      .set('X-User', 'bob')
+      .send({ name: 'Jupiter 2' })
+      .expect(200);
+
+    const response = await supertest(app)
+      .get(`/planets/${id}/history`)
+      .expect('Content-Type', /json/)
+      .expect(200);
+    expect(
+      response.body.data.map(
+        (entry: { operation: string; actor: string }) =>
+          `${entry.operation} ${entry.actor}`
+      )
+    ).toEqual(['create alice', 'update bob']);
+    expect(response.body.data[1].entity.name).toBe('Jupiter 2');
+
+    await supertest(app).get('/planets/foo/history').expect(404);
+    await superSave.close();
+  });
+
+  test('the history of an item hidden by a getById hook is not found', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        history: true,
+        hooks: [
+          {
+            getById: (_collection, _ctx, entity: any) =>
+              entity?.name === 'Secret' ? null : entity,
+          },
+        ],
+      });
+    app.use('/', superSave.getNodeHandler());
+
+    const secret = await planetRepository.create({ name: 'Secret' });
+    const jupiter = await planetRepository.create({ name: 'Jupiter' });
+    await supertest(app).get(`/planets/${secret.id}/history`).expect(404);
+    await supertest(app).get(`/planets/${jupiter.id}/history`).expect(200);
+
+    // a deleted item is checked as it was recorded last
+    await planetRepository.deleteUsingId(secret.id);
+    await supertest(app).get(`/planets/${secret.id}/history`).expect(404);
+    await superSave.close();
+  });
+
+  test('a collection without history has no history endpoint', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository: Repository<Planet> =
+      await superSave.addCollection<Planet>(planetCollection);
+    app.use('/', superSave.getNodeHandler());
+
+    const planet = await planetRepository.create({ name: 'Jupiter' });
+    await supertest(app).get(`/planets/${planet.id}/history`).expect(404);
+    await superSave.close();
+  });
+});
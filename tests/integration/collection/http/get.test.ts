@@ -210,6 +210,102 @@ describe('Express adapter', () => {
     expect(response.body.meta.limit).toBe(1);
     await superSave.close();
   });
+
+  test('the total number of matching items is returned', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const repository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        filterSortFields: { name: 'string' },
+      });
+    app.use('/', superSave.getNodeHandler());
+
+    await repository.create({ name: 'Mars' });
+    await repository.create({ name: 'Earth' });
+    await repository.create({ name: 'Venus' });
+
+    const response = await supertest(app)
+      .get('/planets')
+      .query({ limit: 1, 'name[in]': 'Mars,Venus' })
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.meta.total).toBe(2);
+    await superSave.close();
+  });
+
+  test('items can be paginated using the next cursor', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const repository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        filterSortFields: { name: 'string' },
+      });
+    app.use('/', superSave.getNodeHandler());
+
+    await repository.create({ name: 'Mars' });
+    await repository.create({ name: 'Earth' });
+    await repository.create({ name: 'Venus' });
+
+    const firstPage = await supertest(app)
+      .get('/planets')
+      .query({ limit: 2, sort: 'name' })
+      .expect(200);
+    expect(firstPage.body.data.map((planet: Planet) => planet.name)).toEqual([
+      'Earth',
+      'Mars',
+    ]);
+    expect(typeof firstPage.body.meta.nextCursor).toBe('string');
+
+    const secondPage = await supertest(app)
+      .get('/planets')
+      .query({
+        limit: 2,
+        sort: 'name',
+        cursor: firstPage.body.meta.nextCursor,
+      })
+      .expect(200);
+    expect(secondPage.body.data.map((planet: Planet) => planet.name)).toEqual([
+      'Venus',
+    ]);
+    expect(secondPage.body.meta.nextCursor).toBeNull();
+
+    await supertest(app)
+      .get('/planets')
+      .query({ limit: 2, cursor: 'invalid' })
+      .expect(400);
+    await superSave.close();
+  });
+
+  test('items can be searched', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const repository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        searchFields: ['name', 'description'],
+      });
+    app.use('/', superSave.getNodeHandler());
+
+    await repository.create({ name: 'Mars', description: 'The red planet.' });
+    await repository.create({ name: 'Earth', description: 'The blue planet.' });
+
+    const response = await supertest(app)
+      .get('/planets')
+      .query({ q: 'red' })
+      .expect(200);
+    expect(response.body.data.map((planet: Planet) => planet.name)).toEqual([
+      'Mars',
+    ]);
+    expect(response.body.meta.total).toBe(1);
+    await superSave.close();
+  });
 });
 
 describe('Node HTTP adapter', () => {
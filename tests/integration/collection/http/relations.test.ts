@@ -215,3 +215,52 @@ test('linking related collections via object ids', async () => {
   expect(updatedMoon.planet[0].name).toBe('Saturn');
   await superSave.close();
 });
+
+test('inverse relations are included in the response', async () => {
+  const app: express.Application = express();
+  const superSave = await SuperSave.create(getConnection());
+
+  const planetRepository = await superSave.addCollection<Planet>({
+    ...planetCollection,
+    inverseRelations: [{ name: 'moon', field: 'moons', inverseOf: 'planet' }],
+  });
+  const moonRepository = await superSave.addCollection<Moon>(moonCollection);
+  app.use('/', superSave.getNodeHandler());
+
+  const planet = await planetRepository.create({ name: 'Jupiter' });
+  await moonRepository.create({ name: 'Europa', planet });
+
+  const response = await supertest(app)
+    .get(`/planets/${planet.id}`)
+    .expect('Content-Type', /json/)
+    .expect(200);
+  expect(response.body.data.moons).toHaveLength(1);
+  expect(response.body.data.moons[0].name).toBe('Europa');
+  expect(response.body.data.moons[0].planet).toBe(planet.id);
+  await superSave.close();
+});
+
+test('the expand parameter controls which relations are expanded', async () => {
+  const app: express.Application = express();
+  const superSave = await SuperSave.create(getConnection());
+
+  const planetRepository =
+    await superSave.addCollection<Planet>(planetCollection);
+  const moonRepository = await superSave.addCollection<Moon>(moonCollection);
+  app.use('/', superSave.getNodeHandler());
+
+  const planet = await planetRepository.create({ name: 'Jupiter' });
+  const moon = await moonRepository.create({ name: 'Europa', planet });
+
+  const byIdResponse = await supertest(app)
+    .get(`/moons/${moon.id}?expand=`)
+    .expect(200);
+  expect(byIdResponse.body.data.planet).toBe(planet.id);
+
+  const listResponse = await supertest(app)
+    .get('/moons?expand=planet')
+    .expect(200);
+  expect(listResponse.body.data[0].planet.name).toBe('Jupiter');
+  expect(listResponse.body.meta.filters).toEqual([]);
+  await superSave.close();
+});
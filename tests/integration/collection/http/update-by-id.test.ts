@@ -2,6 +2,7 @@ import http from 'node:http';
 import express from 'express';
 import supertest from 'supertest';
 import { beforeEach, describe, expect, test } from 'vitest';
+import { z } from 'zod';
 import { type Repository, SuperSave } from '../../../../dist/index.js';
 import getConnection from '../../../connection.js';
 import { planetCollection } from '../../../entities.js';
@@ -39,6 +40,143 @@ describe('Express adapter', () => {
     expect((checkPlanet as Planet).name).toBe('Jupiter 2');
     await superSave.close();
   });
+
+  test('updating to a duplicate of a unique field returns a conflict', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        filterSortFields: { name: 'string' },
+        uniqueFields: ['name'],
+      });
+    app.use('/', superSave.getNodeHandler());
+
+    await planetRepository.create({ name: 'Jupiter' });
+    const saturn = await planetRepository.create({ name: 'Saturn' });
+
+    await supertest(app)
+      .patch(`/planets/${saturn.id}`)
+      .send({ name: 'Jupiter' })
+      .expect('Content-Type', /json/)
+      .expect(409);
+    expect((await planetRepository.getById(saturn.id))?.name).toBe('Saturn');
+    await superSave.close();
+  });
+
+  test('updating to an invalid item returns the validation issues', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository = await superSave.addCollection({
+      ...planetCollection,
+      schema: z.object({ name: z.string().min(1) }),
+    });
+    app.use('/', superSave.getNodeHandler());
+
+    const planet = await planetRepository.create({ name: 'Jupiter' });
+
+    const response = await supertest(app)
+      .patch(`/planets/${planet.id}`)
+      .send({ name: '' })
+      .expect('Content-Type', /json/)
+      .expect(422);
+    expect(response.body.issues[0].path).toBe('name');
+    expect((await planetRepository.getById(planet.id))?.name).toBe('Jupiter');
+    await superSave.close();
+  });
+
+  test('an update of a versioned item requires a matching If-Match header', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        versioning: true,
+      });
+    app.use('/', superSave.getNodeHandler());
+
+    const planet = await planetRepository.create({ name: 'Jupiter' });
+    const read = await supertest(app).get(`/planets/${planet.id}`).expect(200);
+    expect(read.headers.etag).toBe('"1"');
+
+    await supertest(app)
+      .patch(`/planets/${planet.id}`)
+      .send({ name: 'Jupiter 2' })
+      .expect(428);
+
+    const updated = await supertest(app)
+      .patch(`/planets/${planet.id}`)
+      .set('If-Match', read.headers.etag)
+      .send({ name: 'Jupiter 2' })
+      .expect(200);
+    expect(updated.headers.etag).toBe('"2"');
+    expect(updated.body.data.version).toBe(2);
+
+    // a second write using the tag that was read is rejected
+    await supertest(app)
+      .patch(`/planets/${planet.id}`)
+      .set('If-Match', read.headers.etag)
+      .send({ name: 'Jupiter 3' })
+      .expect('Content-Type', /json/)
+      .expect(412);
+    await supertest(app)
+      .delete(`/planets/${planet.id}`)
+      .set('If-Match', read.headers.etag)
+      .expect(412);
+    expect((await planetRepository.getById(planet.id))?.name).toBe('Jupiter 2');
+
+    await supertest(app)
+      .delete(`/planets/${planet.id}`)
+      .set('If-Match', '*')
+      .expect(204);
+
+    // a missing item is not found, whatever the tag
+    await supertest(app)
+      .delete(`/planets/${planet.id}`)
+      .set('If-Match', '*')
+      .expect(404);
+    await supertest(app)
+      .patch(`/planets/${planet.id}`)
+      .set('If-Match', updated.headers.etag)
+      .send({ name: 'Jupiter 3' })
+      .expect(404);
+    await superSave.close();
+  });
+});
+
+describe('managed fields', () => {
+  test('the managed fields cannot be changed when updating an item', async () => {
+    const app: express.Application = express();
+    const superSave = await SuperSave.create(getConnection());
+
+    const planetRepository: Repository<Planet> =
+      await superSave.addCollection<Planet>({
+        ...planetCollection,
+        timestamps: true,
+        softDelete: true,
+      });
+    app.use('/', superSave.getNodeHandler());
+    const planet = await planetRepository.create({ name: 'Jupiter' });
+
+    const response = await supertest(app)
+      .patch(`/planets/${planet.id}`)
+      .send({
+        name: 'Jupiter 2',
+        createdAt: '1999-01-01T00:00:00.000Z',
+        deletedAt: '1999-01-01T00:00:00.000Z',
+      })
+      .expect(200);
+
+    expect(response.body.data.name).toBe('Jupiter 2');
+    expect(response.body.data.createdAt).toBe(planet.createdAt);
+    const stored = await planetRepository.getById(planet.id);
+    expect(stored?.name).toBe('Jupiter 2');
+    expect(stored?.deletedAt).toBeUndefined();
+    await superSave.close();
+  });
 });
 
 describe('Node HTTP adapter', () => {
@@ -1,10 +1,28 @@
 import mysql, { type Connection } from 'mysql2/promise';
+import pg from 'pg';
 import getConnection from './connection.js';
 
 export const clear = async (): Promise<void> => {
   const connectionString = getConnection();
 
-  if (connectionString.substring(0, 9) === 'sqlite://') {
+  if (
+    connectionString.substring(0, 9) === 'sqlite://' ||
+    connectionString.substring(0, 9) === 'memory://' ||
+    connectionString.substring(0, 14) === 'node-sqlite://'
+  ) {
+    return;
+  }
+
+  if (connectionString.substring(0, 11) === 'postgres://') {
+    const client = new pg.Client({ connectionString });
+    await client.connect();
+    const { rows } = await client.query<{ tablename: string }>(
+      'SELECT tablename FROM pg_tables WHERE schemaname = current_schema()'
+    );
+    for (const row of rows) {
+      await client.query(`DROP TABLE "${row.tablename}"`);
+    }
+    await client.end();
     return;
   }
 
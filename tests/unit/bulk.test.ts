@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import {
+  type EntityDefinition,
+  type Repository,
+  SuperSave,
+} from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { moonEntity, planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Moon, Planet } from '../types.js';
+
+beforeEach(clear);
+
+const filteredPlanetEntity: EntityDefinition = {
+  ...planetEntity,
+  filterSortFields: {
+    name: 'string',
+    distance: 'number',
+  },
+};
+
+describe('bulk operations', () => {
+  test('multiple entities are created at once', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(filteredPlanetEntity);
+
+    const planets = await planetRepository.createMany([
+      { name: 'Mercury', distance: 58 },
+      { name: 'Venus', distance: 108 },
+      { name: 'Earth', distance: 150 },
+    ]);
+
+    expect(planets).toHaveLength(3);
+    expect(planets.map((planet) => planet.name)).toEqual([
+      'Mercury',
+      'Venus',
+      'Earth',
+    ]);
+    for (const planet of planets) {
+      expect(planet.id).toBeDefined();
+    }
+
+    const query = planetRepository.createQuery().sort('distance');
+    const stored = await planetRepository.getByQuery(query);
+    expect(stored.map((planet) => planet.id)).toEqual(
+      planets.map((planet) => planet.id)
+    );
+    await superSave.close();
+  });
+
+  test('created entities have their relations filled in', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository: Repository<Moon> =
+      await superSave.addEntity<Moon>(moonEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const moons = await moonRepository.createMany([
+      { name: 'Moon', planet: earth },
+      // @ts-expect-error The relation can also be provided using its id.
+      { name: 'Second moon', planet: earth.id },
+    ]);
+
+    expect(moons[0].planet.name).toBe('Earth');
+    expect(moons[1].planet.name).toBe('Earth');
+    await superSave.close();
+  });
+
+  test('multiple entities are updated at once', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(filteredPlanetEntity);
+
+    const planets = await planetRepository.createMany([
+      { name: 'Mercury', distance: 58 },
+      { name: 'Venus', distance: 108 },
+    ]);
+    const updated = await planetRepository.updateMany(
+      planets.map((planet) => ({ ...planet, distance: planet.distance + 1 }))
+    );
+    expect(updated.map((planet) => planet.distance)).toEqual([59, 109]);
+
+    const query = planetRepository.createQuery().eq('distance', 109);
+    const venus = await planetRepository.getOneByQuery(query);
+    expect(venus?.name).toBe('Venus');
+    await superSave.close();
+  });
+
+  test('updating returns the stored entities without the missing ones', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>({
+        ...filteredPlanetEntity,
+        timestamps: true,
+      });
+
+    const [mercury] = await planetRepository.createMany([
+      { name: 'Mercury', distance: 58 },
+    ]);
+    const updated = await planetRepository.updateMany([
+      { id: 'missing', name: 'Venus', distance: 108 },
+      { ...mercury, distance: 59, createdAt: '2000-01-01T00:00:00.000Z' },
+    ]);
+
+    expect(updated).toHaveLength(1);
+    expect(updated[0].id).toBe(mercury.id);
+    expect(updated[0].distance).toBe(59);
+    // the returned entity contains the stored createdAt, not the one of the object
+    expect(updated[0].createdAt).toBe(mercury.createdAt);
+    expect(await planetRepository.getById('missing')).toBeNull();
+    await superSave.close();
+  });
+
+  test('entities are deleted using a query', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(filteredPlanetEntity);
+
+    await planetRepository.createMany([
+      { name: 'Mercury', distance: 58 },
+      { name: 'Venus', distance: 108 },
+      { name: 'Earth', distance: 150 },
+    ]);
+
+    const query = planetRepository.createQuery().lt('distance', 120);
+    const deleted = await planetRepository.deleteByQuery(query);
+    expect(deleted).toBe(2);
+
+    const remaining = await planetRepository.getAll();
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].name).toBe('Earth');
+    await superSave.close();
+  });
+});
@@ -149,6 +149,33 @@ describe('general filter tests', () => {
     await superSave.close();
   });
 
+  test('matching results are counted, ignoring the limit', async () => {
+    const filteredPlanetEntity: EntityDefinition = {
+      ...planetEntity,
+      filterSortFields: {
+        name: 'string',
+        distance: 'number',
+      },
+    };
+
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const planetRepository =
+      await superSave.addEntity<Planet>(filteredPlanetEntity);
+
+    await planetRepository.create({ name: 'Mars', distance: 228 });
+    await planetRepository.create({ name: 'Earth', distance: 150 });
+    await planetRepository.create({ name: 'Venus', distance: 108 });
+
+    expect(await planetRepository.count(planetRepository.createQuery())).toBe(
+      3
+    );
+
+    const countQuery: Query = planetRepository.createQuery();
+    countQuery.gt('distance', 120).sort('name').limit(1);
+    expect(await planetRepository.count(countQuery)).toBe(2);
+    await superSave.close();
+  });
+
   test('Updates to filters', async () => {
     interface FilteredPlanet extends Planet {
       visible: boolean;
@@ -387,3 +414,348 @@ describe('there can be filtered on relation fields', () => {
     await superSave.close();
   });
 });
+
+describe('filter groups', () => {
+  const filteredPlanetEntity: EntityDefinition = {
+    ...planetEntity,
+    filterSortFields: {
+      name: 'string',
+      distance: 'number',
+      inhabitable: 'boolean',
+    },
+  };
+
+  async function createPlanets(superSave: SuperSave) {
+    const planetRepository =
+      await superSave.addEntity<Planet>(filteredPlanetEntity);
+    await planetRepository.create({
+      name: 'Mercury',
+      distance: 58,
+      inhabitable: false,
+    });
+    await planetRepository.create({
+      name: 'Earth',
+      distance: 150,
+      inhabitable: true,
+    });
+    await planetRepository.create({
+      name: 'Mars',
+      distance: 228,
+      inhabitable: false,
+    });
+    await planetRepository.create({
+      name: 'Jupiter',
+      distance: 778,
+      inhabitable: false,
+    });
+    return planetRepository;
+  }
+
+  test('filters can be combined using or', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const planetRepository = await createPlanets(superSave);
+
+    const query: Query = planetRepository.createQuery();
+    query
+      .or((q) => q.eq('name', 'Mercury').eq('inhabitable', true))
+      .sort('distance');
+
+    const results = await planetRepository.getByQuery(query);
+    expect(results.map((planet) => planet.name)).toEqual(['Mercury', 'Earth']);
+    await superSave.close();
+  });
+
+  test('groups can be nested and combined with other filters', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const planetRepository = await createPlanets(superSave);
+
+    // distance > 100 AND (name = Jupiter OR (inhabitable AND distance < 200))
+    const query: Query = planetRepository.createQuery();
+    query
+      .gt('distance', 100)
+      .or((q) =>
+        q
+          .eq('name', 'Jupiter')
+          .and((inner) => inner.eq('inhabitable', true).lt('distance', 200))
+      )
+      .sort('distance');
+
+    const results = await planetRepository.getByQuery(query);
+    expect(results.map((planet) => planet.name)).toEqual(['Earth', 'Jupiter']);
+    expect(await planetRepository.count(query)).toBe(2);
+    await superSave.close();
+  });
+
+  test('filters can be negated', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const planetRepository = await createPlanets(superSave);
+
+    const query: Query = planetRepository.createQuery();
+    query
+      .not((q) => q.in('name', ['Mercury', 'Jupiter']))
+      .not((q) => q.eq('inhabitable', true))
+      .sort('name');
+
+    const results = await planetRepository.getByQuery(query);
+    expect(results.map((planet) => planet.name)).toEqual(['Mars']);
+    await superSave.close();
+  });
+
+  test('negated filters do not match empty fields', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>({
+      ...planetEntity,
+      filterSortFields: { name: 'string', status: 'string' },
+    });
+    await planetRepository.create({ name: 'Earth', status: 'draft' });
+    await planetRepository.create({ name: 'Mars' });
+    await planetRepository.create({ name: 'Venus', status: 'published' });
+
+    // Like in SQL, a comparison with an empty field is unknown and so is its negation.
+    const query: Query = planetRepository
+      .createQuery()
+      .not((q) => q.eq('status', 'draft'))
+      .sort('name');
+    const results = await planetRepository.getByQuery(query);
+    expect(results.map((planet) => planet.name)).toEqual(['Venus']);
+
+    const orQuery: Query = planetRepository
+      .createQuery()
+      .not((q) =>
+        q.or((inner) => inner.eq('status', 'draft').eq('name', 'Mars'))
+      )
+      .sort('name');
+    const orResults = await planetRepository.getByQuery(orQuery);
+    expect(orResults.map((planet) => planet.name)).toEqual(['Venus']);
+    expect(await planetRepository.count(query)).toBe(1);
+    await superSave.close();
+  });
+
+  test('fields in groups must be defined', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const planetRepository = await createPlanets(superSave);
+
+    expect(() =>
+      planetRepository.createQuery().or((q) => q.eq('unknown', 'value'))
+    ).toThrow(TypeError);
+    await superSave.close();
+  });
+});
+
+describe('nested fields', () => {
+  type Address = BaseEntity & {
+    name: string;
+    address: { city: string; geo: { lat: number } };
+  };
+
+  const addressEntity: EntityDefinition = {
+    name: 'address',
+    template: {},
+    relations: [],
+    filterSortFields: {
+      'address.city': 'string',
+      'address.geo.lat': 'number',
+    },
+  };
+
+  test('nested fields can be filtered and sorted', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const repository = await superSave.addEntity<Address>(addressEntity);
+    await repository.create({
+      name: 'Home',
+      address: { city: 'Amsterdam', geo: { lat: 52 } },
+    });
+    await repository.create({
+      name: 'Office',
+      address: { city: 'Utrecht', geo: { lat: 52.1 } },
+    });
+    await repository.create({
+      name: 'Holiday',
+      address: { city: 'Barcelona', geo: { lat: 41 } },
+    });
+
+    const query: Query = repository.createQuery();
+    query.gt('address.geo.lat', 50).sort('address.city', 'desc');
+    const results = await repository.getByQuery(query);
+    expect(results.map((address) => address.name)).toEqual(['Office', 'Home']);
+
+    const cityQuery: Query = repository.createQuery();
+    cityQuery.eq('address.city', 'Barcelona');
+    expect(await repository.getByQuery(cityQuery)).toHaveLength(1);
+    await superSave.close();
+  });
+});
+
+describe('float fields', () => {
+  test('decimals are kept when filtering and sorting', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>({
+      ...planetEntity,
+      filterSortFields: { name: 'string', distance: 'float' },
+    });
+    await planetRepository.create({ name: 'Venus', distance: 0.72 });
+    await planetRepository.create({ name: 'Earth', distance: 1 });
+    await planetRepository.create({ name: 'Mars', distance: 1.52 });
+    await planetRepository.create({ name: 'Ceres', distance: 1.5 });
+
+    const query: Query = planetRepository.createQuery();
+    query.gt('distance', 1.2).sort('distance', 'desc');
+    const results = await planetRepository.getByQuery(query);
+    expect(results.map((planet) => planet.name)).toEqual(['Mars', 'Ceres']);
+    await superSave.close();
+  });
+});
+
+describe('date fields', () => {
+  type Launch = BaseEntity & { name: string; launchedAt: string; day: string };
+
+  const launchEntity: EntityDefinition = {
+    name: 'launch',
+    template: {},
+    relations: [],
+    filterSortFields: { launchedAt: 'datetime', day: 'date' },
+  };
+
+  test('datetimes with different offsets are compared in UTC', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const repository = await superSave.addEntity<Launch>(launchEntity);
+    await repository.create({
+      name: 'Apollo',
+      launchedAt: '2024-01-05T10:00:00+02:00',
+      day: '2024-01-05',
+    });
+    await repository.create({
+      name: 'Gemini',
+      launchedAt: '2024-01-05T09:00:00Z',
+      day: '2024-01-06',
+    });
+    await repository.create({
+      name: 'Mercury',
+      launchedAt: '2024-01-05T03:30:00-05:00',
+      day: '2024-01-04T23:00:00-03:00',
+    });
+
+    const sorted = await repository.getByQuery(
+      repository.createQuery().sort('launchedAt')
+    );
+    expect(sorted.map((launch) => launch.name)).toEqual([
+      'Apollo',
+      'Mercury',
+      'Gemini',
+    ]);
+
+    const after = await repository.getByQuery(
+      repository.createQuery().gt('launchedAt', '2024-01-05T10:00:00+02:00')
+    );
+    expect(after.map((launch) => launch.name).sort()).toEqual([
+      'Gemini',
+      'Mercury',
+    ]);
+
+    const days = await repository.getByQuery(
+      repository.createQuery().gte('day', '2024-01-05').sort('day')
+    );
+    // Mercury was launched on 2024-01-05 in UTC, the same day as Apollo
+    expect(
+      days
+        .map((launch) => launch.name)
+        .slice(0, 2)
+        .sort()
+    ).toEqual(['Apollo', 'Mercury']);
+    expect(days[2].name).toBe('Gemini');
+    await superSave.close();
+  });
+
+  test('numbers are read as epoch milliseconds', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const repository = await superSave.addEntity<BaseEntity>(launchEntity);
+    await repository.create({
+      name: 'Apollo',
+      launchedAt: Date.UTC(2024, 0, 5, 10),
+      day: Date.UTC(2024, 0, 5, 23),
+    });
+    await repository.create({
+      name: 'Gemini',
+      launchedAt: '2024-01-05T11:00:00Z',
+      day: '2024-01-06',
+    });
+
+    const before = await repository.getByQuery(
+      repository.createQuery().lt('launchedAt', '2024-01-05T10:30:00Z')
+    );
+    expect(before.map((launch) => launch.name)).toEqual(['Apollo']);
+
+    const at = await repository.getByQuery(
+      repository.createQuery().eq('launchedAt', Date.UTC(2024, 0, 5, 10))
+    );
+    expect(at.map((launch) => launch.name)).toEqual(['Apollo']);
+
+    const day = await repository.getByQuery(
+      repository.createQuery().eq('day', '2024-01-05')
+    );
+    expect(day.map((launch) => launch.name)).toEqual(['Apollo']);
+    await superSave.close();
+  });
+
+  test('invalid dates cannot be filtered on', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const repository = await superSave.addEntity<Launch>(launchEntity);
+
+    expect(() =>
+      repository.createQuery().lt('launchedAt', 'yesterday')
+    ).toThrow(TypeError);
+    await superSave.close();
+  });
+});
+
+describe('array fields', () => {
+  test('arrays can be filtered on their items', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>({
+      ...planetEntity,
+      filterSortFields: { name: 'string', tags: 'string[]' },
+    });
+    await planetRepository.create({ name: 'Earth', tags: ['rocky', 'inner'] });
+    await planetRepository.create({ name: 'Jupiter', tags: ['gas', 'outer'] });
+    await planetRepository.create({ name: 'Pluto', tags: ['rock'] });
+
+    const rocky = await planetRepository.getByQuery(
+      planetRepository.createQuery().contains('tags', 'rock')
+    );
+    expect(rocky.map((planet) => planet.name)).toEqual(['Pluto']);
+
+    const any = await planetRepository.getByQuery(
+      planetRepository
+        .createQuery()
+        .containsAny('tags', ['inner', 'outer'])
+        .sort('name')
+    );
+    expect(any.map((planet) => planet.name)).toEqual(['Earth', 'Jupiter']);
+    await superSave.close();
+  });
+
+  test('a multiple relation field can be filtered on its items', async () => {
+    const superSave: SuperSave = await SuperSave.create(getConnection());
+    const moonRepository = await superSave.addEntity<BaseEntity>({
+      name: 'moon',
+      template: {},
+      relations: [],
+    });
+    const planetRepository = await superSave.addEntity<Planet>({
+      name: 'planet',
+      template: {},
+      relations: [{ name: 'moon', field: 'moons', multiple: true }],
+      filterSortFields: { moons: 'string' },
+    });
+    const io = await moonRepository.create({ id: 'io', name: 'Io' });
+    const ion = await moonRepository.create({ id: 'ion', name: 'Ion' });
+    await planetRepository.create({ name: 'Jupiter', moons: [io] });
+    await planetRepository.create({ name: 'Fictional', moons: [ion] });
+
+    const planets = await planetRepository.getByQuery(
+      planetRepository.createQuery().contains('moons', 'io')
+    );
+    expect(planets.map((planet) => planet.name)).toEqual(['Jupiter']);
+    await superSave.close();
+  });
+});
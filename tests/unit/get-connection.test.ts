@@ -7,3 +7,14 @@ test('get-connection returns something', async () => {
 
   expect(superSave.getConnection()).toBeTruthy();
 });
+
+const [major, minor] = process.versions.node.split('.').map(Number);
+
+test.skipIf(major > 22 || (major === 22 && minor >= 5))(
+  'a node-sqlite connection requires Node 22.5 or newer',
+  async () => {
+    await expect(SuperSave.create('node-sqlite://:memory:')).rejects.toThrow(
+      'requires Node 22.5 or newer'
+    );
+  }
+);
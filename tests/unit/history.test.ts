@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  type EntityDefinition,
+  type Repository,
+  SuperSave,
+} from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { moonEntity, planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Moon, Planet } from '../types.js';
+
+beforeEach(clear);
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+const historyPlanetEntity: EntityDefinition = {
+  ...planetEntity,
+  filterSortFields: { name: 'string' },
+  history: true,
+};
+
+describe('history', () => {
+  test('create, update and delete are recorded', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(historyPlanetEntity);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-05T10:00:00.000Z'));
+    const planet = await planetRepository.create(
+      { name: 'Earth' },
+      { actor: 'admin' }
+    );
+    vi.setSystemTime(new Date('2024-01-06T10:00:00.000Z'));
+    await planetRepository.update({ ...planet, name: 'Terra' });
+    vi.setSystemTime(new Date('2024-01-07T10:00:00.000Z'));
+    await planetRepository.deleteUsingId(planet.id, { actor: 'cleaner' });
+
+    expect(await planetRepository.getHistory(planet.id)).toEqual([
+      {
+        operation: 'create',
+        entity: { id: planet.id, name: 'Earth' },
+        recordedAt: '2024-01-05T10:00:00.000Z',
+        actor: 'admin',
+      },
+      {
+        operation: 'update',
+        entity: { id: planet.id, name: 'Terra' },
+        recordedAt: '2024-01-06T10:00:00.000Z',
+        actor: null,
+      },
+      {
+        operation: 'delete',
+        entity: { id: planet.id, name: 'Terra' },
+        recordedAt: '2024-01-07T10:00:00.000Z',
+        actor: 'cleaner',
+      },
+    ]);
+    await superSave.close();
+  });
+
+  test('the entity can be retrieved as it was at a moment', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(historyPlanetEntity);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-05T10:00:00.000Z'));
+    const planet = await planetRepository.create({ name: 'Earth' });
+    vi.setSystemTime(new Date('2024-01-06T10:00:00.000Z'));
+    await planetRepository.update({ ...planet, name: 'Terra' });
+    vi.setSystemTime(new Date('2024-01-07T10:00:00.000Z'));
+    await planetRepository.deleteUsingId(planet.id);
+
+    expect(
+      await planetRepository.getAsOf(planet.id, '2024-01-01T00:00:00Z')
+    ).toBeNull();
+    expect(
+      await planetRepository.getAsOf(planet.id, '2024-01-05T12:00:00Z')
+    ).toEqual({ id: planet.id, name: 'Earth' });
+    expect(
+      await planetRepository.getAsOf(
+        planet.id,
+        new Date('2024-01-06T10:00:00.000Z')
+      )
+    ).toEqual({ id: planet.id, name: 'Terra' });
+    expect(
+      await planetRepository.getAsOf(planet.id, '2024-01-08T00:00:00Z')
+    ).toBeNull();
+    await superSave.close();
+  });
+
+  test('the bulk operations and cascading deletes are recorded', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(historyPlanetEntity);
+    const moonRepository: Repository<Moon> = await superSave.addEntity<Moon>({
+      ...moonEntity,
+      history: true,
+      relations: [{ ...moonEntity.relations[0], onDelete: 'cascade' }],
+    });
+
+    const [earth, mars] = await planetRepository.createMany([
+      { name: 'Earth' },
+      { name: 'Mars' },
+    ]);
+    await planetRepository.updateMany([earth, mars], { actor: 'admin' });
+    const moon = await moonRepository.create({ name: 'Moon', planet: earth });
+    await planetRepository.deleteUsingId(earth.id, { actor: 'admin' });
+
+    expect(
+      (await planetRepository.getHistory(mars.id)).map(
+        (entry) => entry.operation
+      )
+    ).toEqual(['create', 'update']);
+    const moonHistory = await moonRepository.getHistory(moon.id);
+    expect(moonHistory.map((entry) => entry.operation)).toEqual([
+      'create',
+      'delete',
+    ]);
+    // the relations of the recorded entity contain the ids of the related entities
+    expect(moonHistory[1].entity.planet).toBe(earth.id);
+    expect(moonHistory[1].actor).toBe('admin');
+    await superSave.close();
+  });
+
+  test('soft deletes and restores are recorded', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>({
+        ...historyPlanetEntity,
+        softDelete: true,
+      });
+
+    const planet = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.deleteUsingId(planet.id);
+    await planetRepository.restore(planet.id);
+
+    const history = await planetRepository.getHistory(planet.id);
+    expect(history.map((entry) => entry.operation)).toEqual([
+      'create',
+      'delete',
+      'update',
+    ]);
+    expect(typeof history[1].entity.deletedAt).toBe('string');
+    expect(history[2].entity.deletedAt).toBeUndefined();
+    await superSave.close();
+  });
+
+  test('deleting by query is recorded', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(historyPlanetEntity);
+    const softPlanetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>({
+        ...historyPlanetEntity,
+        name: 'soft_planet',
+        softDelete: true,
+      });
+
+    const [earth, mars] = await planetRepository.createMany([
+      { name: 'Earth' },
+      { name: 'Mars' },
+    ]);
+    const deleted = await planetRepository.deleteByQuery(
+      planetRepository.createQuery().eq('name', 'Earth'),
+      { actor: 'admin' }
+    );
+    const softEarth = await softPlanetRepository.create({ name: 'Earth' });
+    await softPlanetRepository.deleteByQuery(
+      softPlanetRepository.createQuery().eq('name', 'Earth')
+    );
+
+    expect(deleted).toBe(1);
+    const history = await planetRepository.getHistory(earth.id);
+    expect(history.map((entry) => entry.operation)).toEqual([
+      'create',
+      'delete',
+    ]);
+    expect(history[1].entity).toEqual({ id: earth.id, name: 'Earth' });
+    expect(history[1].actor).toBe('admin');
+    expect(
+      (await planetRepository.getHistory(mars.id)).map(
+        (entry) => entry.operation
+      )
+    ).toEqual(['create']);
+    const softHistory = await softPlanetRepository.getHistory(softEarth.id);
+    expect(softHistory.map((entry) => entry.operation)).toEqual([
+      'create',
+      'delete',
+    ]);
+    expect(typeof softHistory[1].entity.deletedAt).toBe('string');
+    await superSave.close();
+  });
+
+  test('updating an entity that does not exist is not recorded', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(historyPlanetEntity);
+
+    await planetRepository.update({ id: 'missing', name: 'Earth' });
+    await planetRepository.updateMany([{ id: 'missing', name: 'Earth' }]);
+
+    expect(await planetRepository.getHistory('missing')).toEqual([]);
+    await superSave.close();
+  });
+
+  test('the change is not made when the history cannot be recorded', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(historyPlanetEntity);
+    // The engines run the write on a copy of the repository, so the method is replaced for all of them.
+    vi.spyOn(
+      Object.getPrototypeOf(planetRepository),
+      'insertHistoryRows'
+    ).mockRejectedValueOnce(new Error('The history is not available.'));
+
+    await expect(planetRepository.create({ name: 'Earth' })).rejects.toThrow(
+      'The history is not available.'
+    );
+
+    expect(await planetRepository.getAll()).toEqual([]);
+    await superSave.close();
+  });
+
+  test('reading the history of an entity without history throws', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(planetEntity);
+
+    await expect(planetRepository.getHistory('foo')).rejects.toThrow(TypeError);
+    await superSave.close();
+  });
+});
@@ -131,7 +131,7 @@ describe('MySQL/MariaDB migration tests', () => {
     const connectionString = getConnection();
 
     // Skip if not MySQL
-    if (connectionString.substring(0, 9) === 'sqlite://') {
+    if (connectionString.substring(0, 8) !== 'mysql://') {
       return;
     }
 
@@ -206,7 +206,7 @@ describe('MySQL/MariaDB migration tests', () => {
     const connectionString = getConnection();
 
     // Skip if not MySQL
-    if (connectionString.substring(0, 9) === 'sqlite://') {
+    if (connectionString.substring(0, 8) !== 'mysql://') {
       return;
     }
 
@@ -276,7 +276,7 @@ describe('MySQL/MariaDB migration tests', () => {
     const connectionString = getConnection();
 
     // Skip if not MySQL
-    if (connectionString.substring(0, 9) === 'sqlite://') {
+    if (connectionString.substring(0, 8) !== 'mysql://') {
       return;
     }
 
@@ -367,7 +367,7 @@ describe('MySQL/MariaDB migration tests', () => {
     const connectionString = getConnection();
 
     // Skip if not MySQL
-    if (connectionString.substring(0, 9) === 'sqlite://') {
+    if (connectionString.substring(0, 8) !== 'mysql://') {
       return;
     }
 
@@ -465,7 +465,7 @@ describe('MySQL/MariaDB migration tests', () => {
     const connectionString = getConnection();
 
     // Skip if not MySQL
-    if (connectionString.substring(0, 9) === 'sqlite://') {
+    if (connectionString.substring(0, 8) !== 'mysql://') {
       return;
     }
 
@@ -534,7 +534,7 @@ describe('MySQL/MariaDB migration tests', () => {
     const connectionString = getConnection();
 
     // Skip if not MySQL
-    if (connectionString.substring(0, 9) === 'sqlite://') {
+    if (connectionString.substring(0, 8) !== 'mysql://') {
       return;
     }
 
@@ -621,7 +621,7 @@ describe('MySQL/MariaDB migration tests', () => {
     const connectionString = getConnection();
 
     // Skip if not MySQL
-    if (connectionString.substring(0, 9) === 'sqlite://') {
+    if (connectionString.substring(0, 8) !== 'mysql://') {
       return;
     }
 
@@ -727,7 +727,7 @@ describe('MySQL/MariaDB migration tests', () => {
     const connectionString = getConnection();
 
     // Skip if not MySQL
-    if (connectionString.substring(0, 9) === 'sqlite://') {
+    if (connectionString.substring(0, 8) !== 'mysql://') {
       return;
     }
 
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type Repository, SuperSave } from '../../../dist/index.js';
+import getConnection from '../../connection.js';
+import { planetEntity } from '../../entities.js';
+import { clear } from '../../mysql.js';
+import type { Planet } from '../../types.js';
+
+beforeEach(clear);
+
+async function getColumnTypes(
+  superSave: SuperSave
+): Promise<Record<string, string>> {
+  const pool = superSave.getConnection<any>();
+  const { rows } = await pool.query(
+    "SELECT column_name, data_type FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'planet'"
+  );
+  return Object.fromEntries(
+    rows.map((row: { column_name: string; data_type: string }) => [
+      row.column_name,
+      row.data_type,
+    ])
+  );
+}
+
+describe('Postgres sync tests', () => {
+  test('Postgres: generated columns are added and dropped', async () => {
+    const connectionString = getConnection();
+
+    // Skip if not Postgres
+    if (connectionString.substring(0, 11) !== 'postgres://') {
+      return;
+    }
+
+    const superSave = await SuperSave.create(connectionString);
+    const repository: Repository<Planet> = await superSave.addEntity<Planet>({
+      ...planetEntity,
+      filterSortFields: { name: 'string' },
+    });
+    await repository.create({ name: 'Earth', distance: 1 });
+    await superSave.close();
+
+    const superSave2 = await SuperSave.create(connectionString);
+    const repository2: Repository<Planet> = await superSave2.addEntity<Planet>({
+      ...planetEntity,
+      filterSortFields: { distance: 'number' },
+    });
+    expect(await getColumnTypes(superSave2)).toEqual({
+      id: 'character varying',
+      contents: 'jsonb',
+      distance: 'bigint',
+    });
+
+    // The values of the added column are computed for the existing rows
+    const planets = await repository2.getByQuery(
+      repository2.createQuery().eq('distance', 1)
+    );
+    expect(planets).toHaveLength(1);
+    expect(planets[0].name).toBe('Earth');
+    await superSave2.close();
+  });
+
+  test('Postgres: a changed column is recreated', async () => {
+    const connectionString = getConnection();
+
+    // Skip if not Postgres
+    if (connectionString.substring(0, 11) !== 'postgres://') {
+      return;
+    }
+
+    const superSave = await SuperSave.create(connectionString);
+    await superSave.addEntity<Planet>({
+      ...planetEntity,
+      filterSortFields: { distance: 'number' },
+    });
+    await superSave.close();
+
+    const superSave2 = await SuperSave.create(connectionString);
+    const repository: Repository<Planet> = await superSave2.addEntity<Planet>({
+      ...planetEntity,
+      filterSortFields: { distance: 'float' },
+    });
+    expect((await getColumnTypes(superSave2)).distance).toBe(
+      'double precision'
+    );
+
+    await repository.create({ name: 'Earth', distance: 1.5 });
+    const planets = await repository.getByQuery(
+      repository.createQuery().gt('distance', 1.2)
+    );
+    expect(planets).toHaveLength(1);
+    await superSave2.close();
+  });
+});
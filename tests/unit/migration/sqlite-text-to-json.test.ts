@@ -1,16 +1,24 @@
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import Database from 'better-sqlite3';
 import { describe, expect, test } from 'vitest';
+import { z } from 'zod';
 import {
   type EntityDefinition,
   type Repository,
   SuperSave,
 } from '../../../dist/index.js';
+import getConnection from '../../connection.js';
 import { planetEntity } from '../../entities.js';
 import type { Planet } from '../../types.js';
 
+// The databases are made using the driver that is tested, better-sqlite3 or node:sqlite.
+const nodeSqlite = getConnection().startsWith('node-sqlite://');
+const protocol = nodeSqlite ? 'node-sqlite://' : 'sqlite://';
+const Database = nodeSqlite
+  ? (await import('node:sqlite')).DatabaseSync
+  : (await import('better-sqlite3')).default;
+
 // Helper function to create an old SQLite database with TEXT column
 function createOldSqliteDatabase(filePath: string): void {
   const db = new Database(filePath);
@@ -59,7 +67,7 @@ describe('SQLite migration tests', () => {
       verifyDb.close();
 
       // Now initialize SuperSave with the old database
-      const connectionString = `sqlite://${dbPath}`;
+      const connectionString = `${protocol}${dbPath}`;
       const superSave = await SuperSave.create(connectionString);
 
       // Add entity - this should trigger migration
@@ -133,7 +141,7 @@ describe('SQLite migration tests', () => {
       db.close();
 
       // Initialize SuperSave with filterSortFields
-      const connectionString = `sqlite://${dbPath}`;
+      const connectionString = `${protocol}${dbPath}`;
       const superSave = await SuperSave.create(connectionString);
 
       const entityWithFilter: EntityDefinition = {
@@ -186,7 +194,7 @@ describe('SQLite migration tests', () => {
     const dbPath = path.join(tmpDir, 'test.db');
 
     try {
-      const connectionString = `sqlite://${dbPath}`;
+      const connectionString = `${protocol}${dbPath}`;
       const superSave = await SuperSave.create(connectionString);
 
       const entityWithFilter: EntityDefinition = {
@@ -239,4 +247,85 @@ describe('SQLite migration tests', () => {
       }
     }
   });
+
+  test('SQLite: number columns are migrated to float columns', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'supersave-test-'));
+    const dbPath = path.join(tmpDir, 'test.db');
+
+    try {
+      const connectionString = `${protocol}${dbPath}`;
+      const superSave = await SuperSave.create(connectionString);
+      const planetRepository: Repository<Planet> =
+        await superSave.addEntity<Planet>({
+          ...planetEntity,
+          filterSortFields: { distance: 'number' },
+        });
+      await planetRepository.create({ name: 'Earth', distance: 1.5 });
+      await planetRepository.create({ name: 'Mars', distance: 1.2 });
+      await superSave.close();
+
+      const migratedSuperSave = await SuperSave.create(connectionString);
+      const migratedRepository: Repository<Planet> =
+        await migratedSuperSave.addEntity<Planet>({
+          ...planetEntity,
+          filterSortFields: { distance: 'float' },
+        });
+
+      const verifyDb = new Database(dbPath);
+      const columns = verifyDb
+        .prepare('PRAGMA table_xinfo(planet)')
+        .all() as Array<{ name: string; type: string }>;
+      expect(columns.find((col) => col.name === 'distance')?.type).toBe('REAL');
+      verifyDb.close();
+
+      const query = migratedRepository.createQuery();
+      query.gt('distance', 1.3);
+      const results = await migratedRepository.getByQuery(query);
+      expect(results).toHaveLength(1);
+      expect(results[0].name).toBe('Earth');
+
+      await migratedSuperSave.close();
+    } finally {
+      try {
+        fs.unlinkSync(dbPath);
+        fs.rmdirSync(tmpDir);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  });
+
+  test('SQLite: existing contents are not validated against the schema when migrating', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'supersave-test-'));
+    const dbPath = path.join(tmpDir, 'test.db');
+
+    try {
+      const connectionString = `${protocol}${dbPath}`;
+      const superSave = await SuperSave.create(connectionString);
+      const planetRepository: Repository<Planet> =
+        await superSave.addEntity<Planet>(planetEntity);
+      await planetRepository.create({ name: 'Earth', moons: 1 });
+      await superSave.close();
+
+      const migratedSuperSave = await SuperSave.create(connectionString);
+      const migratedRepository = await migratedSuperSave.addEntity({
+        ...planetEntity,
+        filterSortFields: { distance: 'number' },
+        schema: z.object({ name: z.string(), distance: z.number() }),
+      });
+
+      const planets = await migratedRepository.getAll();
+      expect(planets).toHaveLength(1);
+      expect(planets[0]).toMatchObject({ name: 'Earth', moons: 1 });
+
+      await migratedSuperSave.close();
+    } finally {
+      try {
+        fs.unlinkSync(dbPath);
+        fs.rmdirSync(tmpDir);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  });
 });
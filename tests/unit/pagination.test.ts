@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import {
+  type EntityDefinition,
+  type Query,
+  type Repository,
+  SuperSave,
+} from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Planet } from '../types.js';
+
+beforeEach(clear);
+
+const filteredPlanetEntity: EntityDefinition = {
+  ...planetEntity,
+  filterSortFields: {
+    name: 'string',
+    distance: 'number',
+  },
+};
+
+async function paginate(
+  repository: Repository<Planet>,
+  createQuery: () => Query,
+  pageSize: number
+): Promise<Planet[][]> {
+  const pages: Planet[][] = [];
+  let cursor: string | undefined;
+  do {
+    const query = createQuery().limit(pageSize);
+    if (cursor) {
+      query.after(cursor);
+    }
+    const page = await repository.getByQuery(query);
+    pages.push(page);
+    cursor =
+      page.length === pageSize
+        ? repository.createCursor(query, page[page.length - 1])
+        : undefined;
+  } while (cursor);
+  return pages;
+}
+
+describe('cursor pagination', () => {
+  test('all results are returned once, following a multi-field sort', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(filteredPlanetEntity);
+
+    await planetRepository.createMany([
+      { name: 'Earth', distance: 150 },
+      { name: 'Mars', distance: 228 },
+      { name: 'Venus', distance: 108 },
+      { name: 'Mars', distance: 100 },
+      { name: 'Earth', distance: 150 },
+      { name: 'Mercury' },
+    ]);
+
+    const pages = await paginate(
+      planetRepository,
+      () =>
+        planetRepository.createQuery().sort('name').sort('distance', 'desc'),
+      2
+    );
+    const results = pages.flat();
+
+    expect(pages).toHaveLength(4);
+    expect(results).toHaveLength(6);
+    expect(new Set(results.map((planet) => planet.id)).size).toBe(6);
+    expect(
+      results.map((planet) => `${planet.name}:${planet.distance ?? ''}`)
+    ).toEqual([
+      'Earth:150',
+      'Earth:150',
+      'Mars:228',
+      'Mars:100',
+      'Mercury:',
+      'Venus:108',
+    ]);
+    await superSave.close();
+  });
+
+  test('null values are paginated in ascending order', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(filteredPlanetEntity);
+
+    await planetRepository.createMany([
+      { name: 'Earth', distance: 150 },
+      { name: 'Mercury' },
+      { name: 'Pluto' },
+      { name: 'Venus', distance: 108 },
+    ]);
+
+    const pages = await paginate(
+      planetRepository,
+      () => planetRepository.createQuery().sort('distance'),
+      1
+    );
+    const results = pages.flat();
+
+    expect(results).toHaveLength(4);
+    expect(results.slice(2).map((planet) => planet.name)).toEqual([
+      'Venus',
+      'Earth',
+    ]);
+    await superSave.close();
+  });
+
+  test('a cursor for a different sort is rejected', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(filteredPlanetEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const query = planetRepository.createQuery().sort('name');
+    const cursor = planetRepository.createCursor(query, earth);
+
+    expect(() =>
+      planetRepository.createQuery().sort('name').sort('distance').after(cursor)
+    ).toThrow(TypeError);
+    expect(() => planetRepository.createQuery().after('invalid')).toThrow(
+      TypeError
+    );
+    await superSave.close();
+  });
+});
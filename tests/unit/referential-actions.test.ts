@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { z } from 'zod';
+import {
+  type BaseEntity,
+  type EntityDefinition,
+  RelationRestrictError,
+  SuperSave,
+  ValidationError,
+} from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { moonEntity, planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Moon, Planet } from '../types.js';
+
+beforeEach(clear);
+
+interface Crater extends BaseEntity {
+  name: string;
+  moon: Moon | null;
+}
+
+interface System extends BaseEntity {
+  name: string;
+  planets: Planet[];
+}
+
+const craterEntity: EntityDefinition = {
+  name: 'crater',
+  template: {},
+  relations: [
+    { name: 'moon', field: 'moon', multiple: false, onDelete: 'restrict' },
+  ],
+};
+
+const systemEntity: EntityDefinition = {
+  name: 'system',
+  template: {},
+  relations: [
+    { name: 'planet', field: 'planets', multiple: true, onDelete: 'setNull' },
+  ],
+};
+
+const getMoonEntity = (onDelete: 'cascade' | 'restrict' | 'setNull') => ({
+  ...moonEntity,
+  relations: [{ ...moonEntity.relations[0], onDelete }],
+});
+
+describe('relation onDelete', () => {
+  test('cascade deletes the referring entities', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository = await superSave.addEntity<Moon>(
+      getMoonEntity('cascade')
+    );
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const mars = await planetRepository.create({ name: 'Mars' });
+    await moonRepository.create({ name: 'Moon', planet: earth });
+    await moonRepository.create({ name: 'Phobos', planet: mars });
+
+    await planetRepository.deleteUsingId(earth.id);
+
+    const moons = await moonRepository.getAll();
+    expect(moons.map((moon) => moon.name)).toEqual(['Phobos']);
+    await superSave.close();
+  });
+
+  test('restrict prevents the deletion', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository = await superSave.addEntity<Moon>(
+      getMoonEntity('restrict')
+    );
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const moon = await moonRepository.create({ name: 'Moon', planet: earth });
+
+    const error = await planetRepository
+      .deleteUsingId(earth.id)
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RelationRestrictError);
+    expect((error as RelationRestrictError).entity).toBe('moon');
+    expect((error as RelationRestrictError).ids).toEqual([moon.id]);
+    expect(await planetRepository.getById(earth.id)).not.toBeNull();
+
+    await moonRepository.deleteUsingId(moon.id);
+    await planetRepository.deleteUsingId(earth.id);
+    expect(await planetRepository.getAll()).toHaveLength(0);
+    await superSave.close();
+  });
+
+  test('restrict prevents a cascading deletion', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository = await superSave.addEntity<Moon>(
+      getMoonEntity('cascade')
+    );
+    const craterRepository = await superSave.addEntity<Crater>(craterEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const moon = await moonRepository.create({ name: 'Moon', planet: earth });
+    await craterRepository.create({ name: 'Tycho', moon });
+
+    await expect(planetRepository.deleteUsingId(earth.id)).rejects.toThrow(
+      RelationRestrictError
+    );
+    expect(await planetRepository.getAll()).toHaveLength(1);
+    expect(await moonRepository.getAll()).toHaveLength(1);
+    await superSave.close();
+  });
+
+  test('setNull removes the reference', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository = await superSave.addEntity<Moon>(
+      getMoonEntity('setNull')
+    );
+    const systemRepository = await superSave.addEntity<System>(systemEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const mars = await planetRepository.create({ name: 'Mars' });
+    const moon = await moonRepository.create({ name: 'Moon', planet: earth });
+    const system = await systemRepository.create({
+      name: 'Solar',
+      planets: [earth, mars],
+    });
+
+    await planetRepository.deleteUsingId(earth.id);
+
+    expect((await moonRepository.getById(moon.id))?.planet).toBeNull();
+    const updatedSystem = await systemRepository.getById(system.id);
+    expect(updatedSystem?.planets.map((planet) => planet.name)).toEqual([
+      'Mars',
+    ]);
+    await superSave.close();
+  });
+
+  test('nothing is changed when one of the actions fails', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository = await superSave.addEntity<Moon>(
+      getMoonEntity('setNull')
+    );
+    const systemRepository = await superSave.addEntity<System>({
+      ...systemEntity,
+      // a system without planets is not valid, so removing the last planet fails
+      schema: z.object({
+        name: z.string(),
+        planets: z.array(z.string()).min(1),
+      }),
+    });
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const moon = await moonRepository.create({ name: 'Moon', planet: earth });
+    await systemRepository.create({ name: 'Solar', planets: [earth] });
+
+    await expect(planetRepository.deleteUsingId(earth.id)).rejects.toThrow(
+      ValidationError
+    );
+
+    expect(await planetRepository.getById(earth.id)).not.toBeNull();
+    expect((await moonRepository.getById(moon.id))?.planet.name).toBe('Earth');
+    await superSave.close();
+  });
+
+  test('deletions started at the same time within a transaction are made', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository = await superSave.addEntity<Moon>(
+      getMoonEntity('cascade')
+    );
+    const systemRepository = await superSave.addEntity<System>(systemEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const mars = await planetRepository.create({ name: 'Mars' });
+    await moonRepository.create({ name: 'Moon', planet: earth });
+    await moonRepository.create({ name: 'Phobos', planet: mars });
+    const system = await systemRepository.create({
+      name: 'Solar',
+      planets: [earth, mars],
+    });
+
+    await superSave.transaction(async (tx) => {
+      const repository = tx.getRepository<Planet>('planet');
+      await Promise.all([
+        repository.deleteUsingId(earth.id),
+        repository.deleteUsingId(mars.id),
+      ]);
+    });
+
+    expect(await planetRepository.getAll()).toEqual([]);
+    expect(await moonRepository.getAll()).toEqual([]);
+    expect((await systemRepository.getById(system.id))?.planets).toEqual([]);
+    await superSave.close();
+  });
+});
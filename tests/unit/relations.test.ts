@@ -1,5 +1,9 @@
-import { beforeEach, expect, test } from 'vitest';
-import { type Repository, SuperSave } from '../../dist/index.js';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  type BaseEntity,
+  type Repository,
+  SuperSave,
+} from '../../dist/index.js';
 import getConnection from '../connection.js';
 import { moonEntity, planetEntity } from '../entities.js';
 import { clear } from '../mysql.js';
@@ -167,3 +171,297 @@ test('having an empty relation with multiple entities should not throw an error'
 
   await superSave.close();
 });
+
+test('inverse relations are resolved on read', async () => {
+  const superSave = await SuperSave.create(getConnection());
+
+  const planetRepository: Repository<Planet> =
+    await superSave.addEntity<Planet>({
+      ...planetEntity,
+      inverseRelations: [{ name: 'moon', field: 'moons', inverseOf: 'planet' }],
+    });
+  const moonRepository: Repository<Moon> = await superSave.addEntity<Moon>({
+    ...moonEntity,
+    filterSortFields: { planet: 'string' },
+  });
+  const earth = await planetRepository.create({ name: 'Earth' });
+  const mars = await planetRepository.create({ name: 'Mars' });
+  await moonRepository.create({ name: 'Phobos', planet: mars });
+  await moonRepository.create({ name: 'Deimos', planet: mars });
+
+  const planet = await planetRepository.getById(mars.id);
+  expect(planet?.moons.map((moon: Moon) => moon.name).sort()).toEqual([
+    'Deimos',
+    'Phobos',
+  ]);
+  // the moons are returned as stored, referring to the planet by its id
+  expect(planet?.moons[0].planet).toBe(mars.id);
+  expect((await planetRepository.getById(earth.id))?.moons).toEqual([]);
+
+  // the inverse relation is not stored
+  await planetRepository.update({ ...(planet as Planet), name: 'Red' });
+  const moons = await moonRepository.getAll();
+  expect(moons).toHaveLength(2);
+  expect(moons[0].planet.name).toBe('Red');
+  await superSave.close();
+});
+
+test('inverse relations of a relation with multiple entities are resolved on read', async () => {
+  const superSave = await SuperSave.create(getConnection());
+
+  const planetRepository: Repository<Planet> =
+    await superSave.addEntity<Planet>({
+      ...planetEntity,
+      inverseRelations: [{ name: 'moon', field: 'moons', inverseOf: 'planet' }],
+    });
+  const moonRepository: Repository<Moon> = await superSave.addEntity<Moon>({
+    ...moonEntity,
+    relations: [{ name: 'planet', field: 'planet', multiple: true }],
+  });
+  const earth = await planetRepository.create({ name: 'Earth' });
+  const mars = await planetRepository.create({ name: 'Mars' });
+  await moonRepository.create({ name: 'Moon', planet: [earth, mars] });
+
+  const planets = await planetRepository.getAll();
+  expect(planets).toHaveLength(2);
+  for (const planet of planets) {
+    expect(planet.moons).toHaveLength(1);
+    expect(planet.moons[0].name).toBe('Moon');
+  }
+  await superSave.close();
+});
+
+test('relations of all entities are retrieved using a single query', async () => {
+  const superSave = await SuperSave.create(getConnection());
+
+  const planetRepository: Repository<Planet> =
+    await superSave.addEntity<Planet>(planetEntity);
+  const moonRepository: Repository<Moon> = await superSave.addEntity<Moon>({
+    ...moonEntity,
+    relations: [
+      { name: 'planet', field: 'planet', multiple: false },
+      { name: 'planet', field: 'visitedBy', multiple: true },
+    ],
+  });
+  const earth = await planetRepository.create({ name: 'Earth' });
+  const mars = await planetRepository.create({ name: 'Mars' });
+  await moonRepository.create({
+    name: 'Phobos',
+    planet: mars,
+    visitedBy: [mars, earth],
+  });
+  await moonRepository.create({ name: 'Deimos', planet: mars });
+  await moonRepository.create({ name: 'Moon', planet: earth });
+
+  // the planets are retrieved once, the second relation reuses them
+  const queryRowsByIds = vi.spyOn(
+    planetRepository as unknown as { queryRowsByIds: () => unknown },
+    'queryRowsByIds'
+  );
+  const getById = vi.spyOn(planetRepository, 'getById');
+  const moons = await moonRepository.getAll();
+
+  expect(queryRowsByIds).toHaveBeenCalledTimes(1);
+  expect(getById).not.toHaveBeenCalled();
+  const phobos = moons.find((moon) => moon.name === 'Phobos') as Moon;
+  expect(phobos.planet.name).toBe('Mars');
+  expect(phobos.visitedBy.map((planet: Planet) => planet.name)).toEqual([
+    'Mars',
+    'Earth',
+  ]);
+  expect(moons.find((moon) => moon.name === 'Moon')?.planet.name).toBe('Earth');
+  await superSave.close();
+});
+
+describe('expanding relations', () => {
+  const setup = async (superSave: SuperSave) => {
+    const starRepository = await superSave.addEntity<BaseEntity>({
+      name: 'star',
+      template: {},
+      relations: [],
+    });
+    const planetRepository = await superSave.addEntity<Planet>({
+      ...planetEntity,
+      relations: [{ name: 'star', field: 'star', multiple: false }],
+    });
+    const moonRepository = await superSave.addEntity<Moon>(moonEntity);
+
+    const sun = await starRepository.create({ name: 'Sun' });
+    const earth = await planetRepository.create({ name: 'Earth', star: sun });
+    const moon = await moonRepository.create({ name: 'Moon', planet: earth });
+    return { moonRepository, sun, earth, moon };
+  };
+
+  test('all relations are expanded by default', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const { moonRepository, moon } = await setup(superSave);
+
+    const result = await moonRepository.getById(moon.id);
+    expect(result?.planet.name).toBe('Earth');
+    expect(result?.planet.star.name).toBe('Sun');
+    await superSave.close();
+  });
+
+  test('only the provided relation paths are expanded', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const { moonRepository, sun, earth, moon } = await setup(superSave);
+
+    expect(
+      (await moonRepository.getById(moon.id, { expand: [] }))?.planet
+    ).toBe(earth.id);
+    const expanded = await moonRepository.getById(moon.id, {
+      expand: ['planet'],
+    });
+    expect(expanded?.planet.name).toBe('Earth');
+    expect(expanded?.planet.star).toBe(sun.id);
+
+    const [nested] = await moonRepository.getAll({ expand: ['planet.star'] });
+    expect(nested.planet.star.name).toBe('Sun');
+    await superSave.close();
+  });
+
+  test('the depth limits the expanded levels', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const { moonRepository, sun, earth, moon } = await setup(superSave);
+
+    const query = moonRepository.createQuery();
+    const [result] = await moonRepository.getByQuery(query, { depth: 1 });
+    expect(result.planet.name).toBe('Earth');
+    expect(result.planet.star).toBe(sun.id);
+    expect((await moonRepository.getById(moon.id, { depth: 0 }))?.planet).toBe(
+      earth.id
+    );
+    await superSave.close();
+  });
+
+  test('a cycle keeps the id of the related entity', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const userRepository = await superSave.addEntity<BaseEntity>({
+      name: 'user',
+      template: {},
+      relations: [{ name: 'team', field: 'team', multiple: false }],
+    });
+    const teamRepository = await superSave.addEntity<BaseEntity>({
+      name: 'team',
+      template: {},
+      relations: [{ name: 'user', field: 'owner', multiple: false }],
+    });
+
+    const user = await userRepository.create({ name: 'Jane' });
+    const team = await teamRepository.create({ name: 'Red', owner: user });
+    await userRepository.update({ ...user, team });
+
+    const result = await userRepository.getById(user.id as string);
+    expect(result?.team.name).toBe('Red');
+    expect(result?.team.owner).toBe(user.id);
+
+    const [resultTeam] = await teamRepository.getAll();
+    expect(resultTeam.owner.team).toBe(team.id);
+    await superSave.close();
+  });
+});
+
+describe('missing related entities', () => {
+  const setup = async (
+    superSave: SuperSave,
+    missing?: 'throw' | 'null' | 'keepId' | 'omit'
+  ) => {
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository = await superSave.addEntity<BaseEntity>({
+      ...moonEntity,
+      relations: [
+        { name: 'planet', field: 'planet', multiple: false, missing },
+        { name: 'planet', field: 'planets', multiple: true, missing },
+      ],
+    });
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const mars = await planetRepository.create({ name: 'Mars' });
+    const moon = await moonRepository.create({
+      name: 'Moon',
+      planet: mars,
+      planets: [earth, mars],
+    });
+    await planetRepository.deleteUsingId(mars.id as string);
+    return { moonRepository, moon, earth, mars };
+  };
+
+  test('by default a single relation throws and a multiple relation omits', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const { moonRepository, moon } = await setup(superSave);
+
+    await expect(moonRepository.getAll()).rejects.toThrow(
+      'Unable to find related entity planet'
+    );
+    const result = await moonRepository.getById(moon.id as string, {
+      expand: ['planets'],
+    });
+    expect(result?.planets.map((planet: Planet) => planet.name)).toEqual([
+      'Earth',
+    ]);
+    await superSave.close();
+  });
+
+  test('throw throws for both relations', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const { moonRepository, moon } = await setup(superSave, 'throw');
+
+    await expect(
+      moonRepository.getById(moon.id as string, { expand: ['planets'] })
+    ).rejects.toThrow('Unable to find related entity planet');
+    await superSave.close();
+  });
+
+  test('null replaces the missing entity with null', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const { moonRepository, moon } = await setup(superSave, 'null');
+
+    const [result] = await moonRepository.getAll();
+    expect(result.planet).toBeNull();
+    expect(result.planets[0].name).toBe('Earth');
+    expect(result.planets[1]).toBeNull();
+
+    // storing the entity removes the missing entities
+    await moonRepository.update(result);
+    const updated = await moonRepository.getById(moon.id as string, {
+      depth: 0,
+    });
+    expect(updated?.planet).toBeNull();
+    expect(updated?.planets).toHaveLength(1);
+    await superSave.close();
+  });
+
+  test('keepId keeps the id of the missing entity', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const { moonRepository, mars } = await setup(superSave, 'keepId');
+
+    const [result] = await moonRepository.getAll();
+    expect(result.planet).toBe(mars.id);
+    expect(result.planets[0].name).toBe('Earth');
+    expect(result.planets[1]).toBe(mars.id);
+    await superSave.close();
+  });
+
+  test('omit leaves out the missing entity', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const { moonRepository } = await setup(superSave, 'omit');
+
+    const [result] = await moonRepository.getAll();
+    expect(result).not.toHaveProperty('planet');
+    expect(result.planets).toHaveLength(1);
+    expect(result.planets[0].name).toBe('Earth');
+    await superSave.close();
+  });
+
+  test('the dangling references are reported', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const { moonRepository, moon, mars } = await setup(superSave);
+
+    expect(await moonRepository.getDanglingReferences()).toEqual([
+      { id: moon.id, field: 'planet', relatedId: mars.id },
+      { id: moon.id, field: 'planets', relatedId: mars.id },
+    ]);
+    await superSave.close();
+  });
+});
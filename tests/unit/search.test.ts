@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type EntityDefinition, SuperSave } from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Planet } from '../types.js';
+
+beforeEach(clear);
+
+const searchablePlanetEntity: EntityDefinition = {
+  ...planetEntity,
+  filterSortFields: { name: 'string', distance: 'number' },
+  searchFields: ['name', 'description'],
+};
+
+describe('full-text search', () => {
+  test('results are ordered by relevance', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(
+      searchablePlanetEntity
+    );
+    await planetRepository.create({
+      name: 'Jupiter',
+      description: 'A gas giant with a great red spot and many moons.',
+    });
+    await planetRepository.create({
+      name: 'Mars',
+      description: 'The red planet, red because of its red dust.',
+    });
+    await planetRepository.create({
+      name: 'Neptune',
+      description: 'An ice giant, far away from the sun.',
+    });
+
+    const query = planetRepository.createQuery().search('red');
+    const results = await planetRepository.getByQuery(query);
+    expect(results.map((planet) => planet.name)).toEqual(['Mars', 'Jupiter']);
+    expect(await planetRepository.count(query)).toBe(2);
+    await superSave.close();
+  });
+
+  test('entities match when they contain all words of the term', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(
+      searchablePlanetEntity
+    );
+    await planetRepository.create({
+      name: 'Jupiter',
+      description: 'A gas giant with many moons.',
+    });
+    await planetRepository.create({
+      name: 'Neptune',
+      description: 'An ice giant, far away from the sun.',
+    });
+
+    const query = planetRepository.createQuery().search('giant moons');
+    const results = await planetRepository.getByQuery(query);
+    expect(results.map((planet) => planet.name)).toEqual(['Jupiter']);
+    expect(await planetRepository.count(query)).toBe(1);
+    await superSave.close();
+  });
+
+  test('search can be combined with filters and sorting', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(
+      searchablePlanetEntity
+    );
+    await planetRepository.create({
+      name: 'Jupiter',
+      description: 'A giant planet.',
+      distance: 778,
+    });
+    await planetRepository.create({
+      name: 'Saturn',
+      description: 'A giant planet with rings.',
+      distance: 1433,
+    });
+    await planetRepository.create({
+      name: 'Neptune',
+      description: 'A giant planet, far away.',
+      distance: 4495,
+    });
+
+    const query = planetRepository
+      .createQuery()
+      .search('giant')
+      .lt('distance', 2000)
+      .sort('name', 'desc');
+    const results = await planetRepository.getByQuery(query);
+    expect(results.map((planet) => planet.name)).toEqual(['Saturn', 'Jupiter']);
+    await superSave.close();
+  });
+
+  test('the search index follows updates and deletes', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(
+      searchablePlanetEntity
+    );
+    const pluto = await planetRepository.create({
+      name: 'Pluto',
+      description: 'The ninth planet.',
+    });
+    const ceres = await planetRepository.create({
+      name: 'Ceres',
+      description: 'A planet in the asteroid belt.',
+    });
+
+    await planetRepository.update({
+      ...pluto,
+      description: 'A dwarf planet.',
+    });
+    await planetRepository.deleteUsingId(ceres.id as string);
+
+    const ninth = await planetRepository.getByQuery(
+      planetRepository.createQuery().search('ninth')
+    );
+    expect(ninth).toHaveLength(0);
+    const planets = await planetRepository.getByQuery(
+      planetRepository.createQuery().search('planet')
+    );
+    expect(planets.map((planet) => planet.name)).toEqual(['Pluto']);
+    await superSave.close();
+  });
+
+  test('special characters in the term are matched literally', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(
+      searchablePlanetEntity
+    );
+    await planetRepository.create({ name: 'Earth', description: 'Home.' });
+
+    const results = await planetRepository.getByQuery(
+      planetRepository.createQuery().search('"earth" (home*')
+    );
+    expect(results.map((planet) => planet.name)).toEqual(['Earth']);
+    await superSave.close();
+  });
+
+  test('entities without searchFields cannot be searched', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity<Planet>(planetEntity);
+
+    expect(() => planetRepository.createQuery().search('earth')).toThrow(
+      TypeError
+    );
+    await superSave.close();
+  });
+});
@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { z } from 'zod';
+import {
+  type EntityDefinition,
+  type Repository,
+  SuperSave,
+} from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { moonEntity, planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Moon, Planet } from '../types.js';
+
+beforeEach(clear);
+
+const softDeletePlanetEntity: EntityDefinition = {
+  ...planetEntity,
+  filterSortFields: { name: 'string' },
+  softDelete: true,
+};
+
+describe('soft delete', () => {
+  test('a deleted entity is excluded by default', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(softDeletePlanetEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const mars = await planetRepository.create({ name: 'Mars' });
+    await planetRepository.deleteUsingId(earth.id as string);
+
+    expect(await planetRepository.getById(earth.id as string)).toBeNull();
+    expect(await planetRepository.getAll()).toEqual([mars]);
+    expect(
+      await planetRepository.getByIds([earth.id as string, mars.id as string])
+    ).toEqual([mars]);
+    const query = planetRepository.createQuery().like('name', '*a*');
+    expect(await planetRepository.getByQuery(query)).toEqual([mars]);
+    expect(await planetRepository.count(query)).toBe(1);
+
+    const deleted = await planetRepository.getById(earth.id as string, {
+      withDeleted: true,
+    });
+    expect(deleted?.name).toBe('Earth');
+    expect(typeof deleted?.deletedAt).toBe('string');
+    expect(await planetRepository.getAll({ withDeleted: true })).toHaveLength(
+      2
+    );
+    await superSave.close();
+  });
+
+  test('deleted entities can be queried', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(softDeletePlanetEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.create({ name: 'Mars' });
+    await planetRepository.deleteUsingId(earth.id as string);
+
+    const withDeleted = await planetRepository.getByQuery(
+      planetRepository.createQuery().withDeleted().sort('name')
+    );
+    expect(withDeleted.map((planet) => planet.name)).toEqual(['Earth', 'Mars']);
+
+    const onlyDeleted = await planetRepository.getByQuery(
+      planetRepository.createQuery().onlyDeleted()
+    );
+    expect(onlyDeleted.map((planet) => planet.name)).toEqual(['Earth']);
+    await superSave.close();
+  });
+
+  test('a deleted entity can be restored', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(softDeletePlanetEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.deleteUsingId(earth.id as string);
+
+    expect(await planetRepository.restore(earth.id as string)).toEqual(earth);
+    expect(await planetRepository.getById(earth.id as string)).toEqual(earth);
+    // the entity is no longer deleted
+    expect(await planetRepository.restore(earth.id as string)).toBeNull();
+    await superSave.close();
+  });
+
+  test('delete by query marks the entities as deleted', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(softDeletePlanetEntity);
+
+    await planetRepository.create({ name: 'Earth' });
+    await planetRepository.create({ name: 'Mars' });
+
+    const deleted = await planetRepository.deleteByQuery(
+      planetRepository.createQuery().eq('name', 'Earth')
+    );
+    expect(deleted).toBe(1);
+    expect(await planetRepository.getAll()).toHaveLength(1);
+    expect(await planetRepository.getAll({ withDeleted: true })).toHaveLength(
+      2
+    );
+    await superSave.close();
+  });
+
+  test('the deleted marker is kept when validating using a schema', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity({
+      ...softDeletePlanetEntity,
+      schema: z.object({ name: z.string() }),
+    });
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.deleteUsingId(earth.id);
+    const deleted = await planetRepository.getById(earth.id, {
+      withDeleted: true,
+    });
+    const updated = await planetRepository.update({
+      ...(deleted as typeof earth),
+      name: 'Terra',
+    });
+
+    expect(updated.deletedAt).toBe(deleted?.deletedAt);
+    expect(await planetRepository.getById(earth.id)).toBeNull();
+    await superSave.close();
+  });
+
+  test('an update does not restore a deleted entity', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(softDeletePlanetEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.deleteUsingId(earth.id as string);
+    // the object was read before the entity was deleted
+    await planetRepository.update({ ...earth, name: 'Terra' });
+    await planetRepository.updateMany([{ ...earth, name: 'Gaia' }]);
+
+    expect(await planetRepository.getById(earth.id as string)).toBeNull();
+    const deleted = await planetRepository.getById(earth.id as string, {
+      withDeleted: true,
+    });
+    expect(deleted?.name).toBe('Gaia');
+    expect(typeof deleted?.deletedAt).toBe('string');
+    await superSave.close();
+  });
+
+  test('deleting and restoring increase the version', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>({
+        ...softDeletePlanetEntity,
+        versioning: true,
+      });
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.deleteUsingId(earth.id as string);
+    const deleted = await planetRepository.getById(earth.id as string, {
+      withDeleted: true,
+    });
+    expect(deleted?.version).toBe(2);
+
+    const restored = await planetRepository.restore(earth.id as string);
+    expect(restored?.version).toBe(3);
+    await superSave.close();
+  });
+
+  test('relations to a deleted entity are kept', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(softDeletePlanetEntity);
+    const moonRepository: Repository<Moon> = await superSave.addEntity<Moon>({
+      ...moonEntity,
+      relations: [{ ...moonEntity.relations[0], onDelete: 'cascade' }],
+    });
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const moon = await moonRepository.create({ name: 'Moon', planet: earth });
+    await planetRepository.deleteUsingId(earth.id as string);
+
+    const storedMoon = await moonRepository.getById(moon.id as string);
+    expect(storedMoon?.planet.name).toBe('Earth');
+    await superSave.close();
+  });
+
+  test('deleted entities are excluded from inverse relations', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>({
+        ...planetEntity,
+        inverseRelations: [
+          { name: 'moon', field: 'moons', inverseOf: 'planet' },
+        ],
+      });
+    const moonRepository: Repository<Moon> = await superSave.addEntity<Moon>({
+      ...moonEntity,
+      softDelete: true,
+    });
+
+    const jupiter = await planetRepository.create({ name: 'Jupiter' });
+    const io = await moonRepository.create({ name: 'Io', planet: jupiter });
+    await moonRepository.create({ name: 'Europa', planet: jupiter });
+    await moonRepository.deleteUsingId(io.id as string);
+
+    const stored = await planetRepository.getById(jupiter.id as string);
+    expect(stored?.moons.map((moon: Moon) => moon.name)).toEqual(['Europa']);
+    await superSave.close();
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  type EntityDefinition,
+  type Repository,
+  SuperSave,
+} from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Planet } from '../types.js';
+
+beforeEach(clear);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const timestampsPlanetEntity: EntityDefinition = {
+  ...planetEntity,
+  filterSortFields: { name: 'string' },
+  timestamps: true,
+};
+
+describe('timestamps', () => {
+  test('create and update set the timestamps', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(timestampsPlanetEntity);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-05T10:00:00.000Z'));
+    const planet = await planetRepository.create({ name: 'Earth' });
+    expect(planet.createdAt).toBe('2024-01-05T10:00:00.000Z');
+    expect(planet.updatedAt).toBe('2024-01-05T10:00:00.000Z');
+
+    vi.setSystemTime(new Date('2024-01-06T10:00:00.000Z'));
+    const updated = await planetRepository.update({
+      ...planet,
+      name: 'Terra',
+    });
+    expect(updated.createdAt).toBe('2024-01-05T10:00:00.000Z');
+    expect(updated.updatedAt).toBe('2024-01-06T10:00:00.000Z');
+    await superSave.close();
+  });
+
+  test('the bulk operations set the timestamps', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(timestampsPlanetEntity);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-05T10:00:00.000Z'));
+    const planets = await planetRepository.createMany([
+      { name: 'Earth' },
+      { name: 'Mars' },
+    ]);
+    expect(planets.map((planet) => planet.createdAt)).toEqual([
+      '2024-01-05T10:00:00.000Z',
+      '2024-01-05T10:00:00.000Z',
+    ]);
+
+    vi.setSystemTime(new Date('2024-01-06T10:00:00.000Z'));
+    await planetRepository.updateMany(planets);
+    const stored = await planetRepository.getAll();
+    expect(stored.map((planet) => planet.updatedAt)).toEqual([
+      '2024-01-06T10:00:00.000Z',
+      '2024-01-06T10:00:00.000Z',
+    ]);
+    await superSave.close();
+  });
+
+  test('the timestamps can be filtered and sorted on', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(timestampsPlanetEntity);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-05T10:00:00.000Z'));
+    const earth = await planetRepository.create({ name: 'Earth' });
+    vi.setSystemTime(new Date('2024-01-06T10:00:00.000Z'));
+    await planetRepository.create({ name: 'Mars' });
+    vi.setSystemTime(new Date('2024-01-07T10:00:00.000Z'));
+    await planetRepository.update(earth);
+
+    const byUpdate = await planetRepository.getByQuery(
+      planetRepository.createQuery().sort('updatedAt', 'desc')
+    );
+    expect(byUpdate.map((planet) => planet.name)).toEqual(['Earth', 'Mars']);
+
+    const created = await planetRepository.getByQuery(
+      planetRepository.createQuery().gt('createdAt', '2024-01-05T12:00:00Z')
+    );
+    expect(created.map((planet) => planet.name)).toEqual(['Mars']);
+    await superSave.close();
+  });
+
+  test('a provided creation moment is kept', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(timestampsPlanetEntity);
+
+    const planet = await planetRepository.create({
+      name: 'Earth',
+      createdAt: '2020-01-01T00:00:00.000Z',
+    });
+    expect(planet.createdAt).toBe('2020-01-01T00:00:00.000Z');
+    await superSave.close();
+  });
+
+  test('an update keeps the stored creation moment', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(timestampsPlanetEntity);
+
+    const planet = await planetRepository.create({ name: 'Earth' });
+    const updated = await planetRepository.update({
+      ...planet,
+      createdAt: '1999-01-01T00:00:00.000Z',
+    });
+    expect(updated.createdAt).toBe(planet.createdAt);
+
+    const [updatedMany] = await planetRepository.updateMany([
+      { ...planet, createdAt: '1999-01-01T00:00:00.000Z' },
+    ]);
+    expect(updatedMany.createdAt).toBe(planet.createdAt);
+    await superSave.close();
+  });
+
+  test('the timestamps are kept when validating using a schema', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity({
+      ...timestampsPlanetEntity,
+      schema: z.object({ name: z.string() }),
+    });
+
+    const planet = await planetRepository.create({ name: 'Earth' });
+    expect(typeof planet.createdAt).toBe('string');
+    expect(typeof planet.updatedAt).toBe('string');
+    await superSave.close();
+  });
+});
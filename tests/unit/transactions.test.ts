@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type Repository, SuperSave } from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { moonEntity, planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Moon, Planet } from '../types.js';
+
+beforeEach(clear);
+
+describe('transactions', () => {
+  test('changes are committed when the callback resolves', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository: Repository<Moon> =
+      await superSave.addEntity<Moon>(moonEntity);
+
+    const moon = await superSave.transaction(async (tx) => {
+      const earth = await tx
+        .getRepository<Planet>('planet')
+        .create({ name: 'Earth' });
+      return tx.getRepository<Moon>('moon').create({
+        name: 'Moon',
+        planet: earth,
+      });
+    });
+
+    expect(moon.planet.name).toBe('Earth');
+    expect(await planetRepository.getAll()).toHaveLength(1);
+    expect(await moonRepository.getAll()).toHaveLength(1);
+    await superSave.close();
+  });
+
+  test('changes are rolled back when the callback throws', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(planetEntity);
+    const moonRepository: Repository<Moon> =
+      await superSave.addEntity<Moon>(moonEntity);
+
+    await expect(
+      superSave.transaction(async (tx) => {
+        const earth = await tx
+          .getRepository<Planet>('planet')
+          .create({ name: 'Earth' });
+        await tx
+          .getRepository<Moon>('moon')
+          .create({ name: 'Moon', planet: earth });
+        throw new Error('Abort');
+      })
+    ).rejects.toThrow('Abort');
+
+    expect(await planetRepository.getAll()).toHaveLength(0);
+    expect(await moonRepository.getAll()).toHaveLength(0);
+    await superSave.close();
+  });
+
+  test('a nested transaction only rolls back its own changes', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(planetEntity);
+
+    await superSave.transaction(async (tx) => {
+      await tx.getRepository<Planet>('planet').create({ name: 'Earth' });
+      await expect(
+        tx.transaction(async (nestedTx) => {
+          await nestedTx
+            .getRepository<Planet>('planet')
+            .create({ name: 'Mars' });
+          throw new Error('Abort nested');
+        })
+      ).rejects.toThrow('Abort nested');
+    });
+
+    const planets = await planetRepository.getAll();
+    expect(planets).toHaveLength(1);
+    expect(planets[0].name).toBe('Earth');
+    await superSave.close();
+  });
+
+  test('concurrent transactions and writes do not affect each other', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(planetEntity);
+
+    const failing = superSave.transaction(async (tx) => {
+      await tx.getRepository<Planet>('planet').create({ name: 'Earth' });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      throw new Error('Abort');
+    });
+    const succeeding = superSave.transaction(async (tx) => {
+      await tx.getRepository<Planet>('planet').create({ name: 'Mars' });
+    });
+    const outside = planetRepository.create({ name: 'Venus' });
+
+    await expect(failing).rejects.toThrow('Abort');
+    await succeeding;
+    await outside;
+
+    const planets = await planetRepository.getAll();
+    expect(planets.map((planet: Planet) => planet.name).sort()).toEqual([
+      'Mars',
+      'Venus',
+    ]);
+    await superSave.close();
+  });
+
+  test('writes started at the same time within a transaction are made', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(planetEntity);
+
+    await superSave.transaction(async (tx) => {
+      const repository = tx.getRepository<Planet>('planet');
+      await Promise.all([
+        repository.create({ name: 'Earth' }),
+        repository.create({ name: 'Mars' }),
+        repository.createMany([{ name: 'Venus' }, { name: 'Jupiter' }]),
+      ]);
+    });
+
+    const planets = await planetRepository.getAll();
+    expect(planets.map((planet: Planet) => planet.name).sort()).toEqual([
+      'Earth',
+      'Jupiter',
+      'Mars',
+      'Venus',
+    ]);
+    await superSave.close();
+  });
+});
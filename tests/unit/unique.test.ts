@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import {
+  type BaseEntity,
+  type EntityDefinition,
+  SuperSave,
+  UniqueConstraintError,
+} from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { clear } from '../mysql.js';
+
+beforeEach(clear);
+
+interface User extends BaseEntity {
+  email: string;
+  tenant: string;
+  username: string;
+}
+
+const userEntity: EntityDefinition = {
+  name: 'user',
+  template: {},
+  relations: [],
+  filterSortFields: { email: 'string', tenant: 'string', username: 'string' },
+  uniqueFields: ['email', ['tenant', 'username']],
+};
+
+describe('unique fields', () => {
+  test('a duplicate value cannot be created', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const userRepository = await superSave.addEntity<User>(userEntity);
+
+    await userRepository.create({
+      email: 'jane@example.com',
+      tenant: 'a',
+      username: 'jane',
+    });
+    const error = await userRepository
+      .create({ email: 'jane@example.com', tenant: 'b', username: 'jane' })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect((error as UniqueConstraintError).fields).toEqual(['email']);
+    expect(await userRepository.getAll()).toHaveLength(1);
+    await superSave.close();
+  });
+
+  test('fields can be unique together', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const userRepository = await superSave.addEntity<User>(userEntity);
+
+    await userRepository.create({
+      email: 'jane@example.com',
+      tenant: 'a',
+      username: 'jane',
+    });
+    await userRepository.create({
+      email: 'jane@example.org',
+      tenant: 'b',
+      username: 'jane',
+    });
+    const john = await userRepository.create({
+      email: 'john@example.org',
+      tenant: 'a',
+      username: 'john',
+    });
+
+    const error = await userRepository
+      .update({ ...john, username: 'jane' })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(UniqueConstraintError);
+    expect((error as UniqueConstraintError).fields).toEqual([
+      'tenant',
+      'username',
+    ]);
+    await superSave.close();
+  });
+
+  test('bulk creates are rolled back on a violation', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const userRepository = await superSave.addEntity<User>(userEntity);
+
+    await expect(
+      userRepository.createMany([
+        { email: 'jane@example.com', tenant: 'a', username: 'jane' },
+        { email: 'jane@example.com', tenant: 'a', username: 'john' },
+      ])
+    ).rejects.toBeInstanceOf(UniqueConstraintError);
+    expect(await userRepository.getAll()).toHaveLength(0);
+    await superSave.close();
+  });
+
+  test('fields with a long common name keep their own unique index', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const contactRepository = await superSave.addEntity<BaseEntity>({
+      name: 'contact_with_a_long_name_to_test_the_unique_index_names',
+      template: {},
+      relations: [],
+      filterSortFields: { contactEmail: 'string', contactPhone: 'string' },
+      uniqueFields: ['contactEmail', 'contactPhone'],
+    });
+
+    await contactRepository.create({ contactEmail: 'a', contactPhone: '1' });
+    const emailError = await contactRepository
+      .create({ contactEmail: 'a', contactPhone: '2' })
+      .catch((e: unknown) => e);
+    expect((emailError as UniqueConstraintError).fields).toEqual([
+      'contactEmail',
+    ]);
+    const phoneError = await contactRepository
+      .create({ contactEmail: 'b', contactPhone: '1' })
+      .catch((e: unknown) => e);
+    expect((phoneError as UniqueConstraintError).fields).toEqual([
+      'contactPhone',
+    ]);
+    await superSave.close();
+  });
+
+  test('unique fields must be filterSortFields', async () => {
+    const superSave = await SuperSave.create(getConnection());
+
+    await expect(
+      superSave.addEntity<User>({ ...userEntity, uniqueFields: ['phone'] })
+    ).rejects.toThrow(TypeError);
+    await superSave.close();
+  });
+});
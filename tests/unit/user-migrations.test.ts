@@ -5,6 +5,10 @@ import { clear } from '../mysql.js';
 
 beforeEach(clear);
 
+const isSqlite = (connectionString: string): boolean =>
+  connectionString.startsWith('sqlite://') ||
+  connectionString.startsWith('node-sqlite://');
+
 test('migration execution and tracking', async () => {
   const migration1Run = vi.fn().mockResolvedValue(undefined);
   const migration2Run = vi.fn().mockResolvedValue(undefined);
@@ -24,13 +28,24 @@ test('migration execution and tracking', async () => {
 
   // Check if it's recorded using getConnection()
   const connectionString = getConnection();
-  if (connectionString.startsWith('sqlite://')) {
+  if (isSqlite(connectionString)) {
     const db = ss.getConnection<any>();
     const recorded = db
       .prepare('SELECT name FROM _supersave_migrations WHERE name = ?')
       .all('m1');
     expect(recorded).toHaveLength(1);
     expect(recorded[0].name).toBe('m1');
+  } else if (connectionString.startsWith('memory://')) {
+    const db = ss.getConnection<any>();
+    expect(db.get('_supersave_migrations').has('m1')).toBe(true);
+  } else if (connectionString.startsWith('postgres://')) {
+    const pool = ss.getConnection<any>();
+    const { rows: recorded } = await pool.query(
+      'SELECT name FROM _supersave_migrations WHERE name = $1',
+      ['m1']
+    );
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0].name).toBe('m1');
   } else {
     const pool = ss.getConnection<any>();
     const [recorded] = await pool.query(
@@ -47,27 +62,42 @@ test('migration execution and tracking', async () => {
 test('engine specific migrations', async () => {
   const sqliteMigration = vi.fn().mockResolvedValue(undefined);
   const mysqlMigration = vi.fn().mockResolvedValue(undefined);
+  const postgresMigration = vi.fn().mockResolvedValue(undefined);
+  const memoryMigration = vi.fn().mockResolvedValue(undefined);
 
   const migrations = [
     { name: 'sqlite-only', run: sqliteMigration, engine: 'sqlite' as const },
     { name: 'mysql-only', run: mysqlMigration, engine: 'mysql' as const },
+    {
+      name: 'postgres-only',
+      run: postgresMigration,
+      engine: 'postgres' as const,
+    },
+    { name: 'memory-only', run: memoryMigration, engine: 'memory' as const },
   ];
 
   const connectionString = getConnection();
-  const engineType = connectionString.startsWith('sqlite://')
+  const engineType = isSqlite(connectionString)
     ? 'sqlite'
-    : 'mysql';
+    : connectionString.startsWith('postgres://')
+      ? 'postgres'
+      : connectionString.startsWith('memory://')
+        ? 'memory'
+        : 'mysql';
 
   const ss = await SuperSave.create(connectionString, { migrations });
   await ss.runMigrations();
 
-  if (engineType === 'sqlite') {
-    expect(sqliteMigration).toHaveBeenCalledTimes(1);
-    expect(mysqlMigration).not.toHaveBeenCalled();
-  } else {
-    expect(mysqlMigration).toHaveBeenCalledTimes(1);
-    expect(sqliteMigration).not.toHaveBeenCalled();
-  }
+  expect(sqliteMigration).toHaveBeenCalledTimes(
+    engineType === 'sqlite' ? 1 : 0
+  );
+  expect(mysqlMigration).toHaveBeenCalledTimes(engineType === 'mysql' ? 1 : 0);
+  expect(postgresMigration).toHaveBeenCalledTimes(
+    engineType === 'postgres' ? 1 : 0
+  );
+  expect(memoryMigration).toHaveBeenCalledTimes(
+    engineType === 'memory' ? 1 : 0
+  );
 
   await ss.close();
 });
@@ -86,7 +116,7 @@ test('skipSync option', async () => {
   await ss.addEntity(testEntity);
 
   const connectionString = getConnection();
-  if (connectionString.startsWith('sqlite://')) {
+  if (isSqlite(connectionString)) {
     const db = ss.getConnection<any>();
     const columns = db.prepare("pragma table_info('test_skip_sync')").all();
     const nameColumn = columns.find((c: any) => c.name === 'name');
@@ -105,8 +135,8 @@ test('skipSync option', async () => {
 test('skipSync prevents schema changes on reconnect', async () => {
   const connectionString = getConnection();
 
-  // Skip for in-memory SQLite as data is lost when connection closes
-  if (connectionString === 'sqlite://:memory:') {
+  // Skip for in-memory SQLite as data is lost when connection closes, the queries are specific to MySQL
+  if (!connectionString.startsWith('mysql://')) {
     return;
   }
 
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { z } from 'zod';
+import { SuperSave, ValidationError } from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { moonEntity, planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Moon } from '../types.js';
+
+beforeEach(clear);
+
+const planetSchema = z.object({
+  name: z.string().min(1),
+  distance: z.number().positive().optional(),
+});
+
+describe('schema validation', () => {
+  test('a valid entity is created', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity({
+      ...planetEntity,
+      schema: planetSchema,
+    });
+
+    const planet = await planetRepository.create({
+      name: 'Earth',
+      distance: 150,
+    });
+    expect(planet.name).toBe('Earth');
+    expect(planet.distance).toBe(150);
+    expect(await planetRepository.getById(planet.id)).toEqual(planet);
+    await superSave.close();
+  });
+
+  test('an invalid entity is not created', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity({
+      ...planetEntity,
+      schema: planetSchema,
+    });
+
+    const error = await planetRepository
+      .create({ name: '', distance: -1 })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(
+      (error as ValidationError).issues.map((issue) => issue.path)
+    ).toEqual(['name', 'distance']);
+    expect(await planetRepository.getAll()).toHaveLength(0);
+    await superSave.close();
+  });
+
+  test('an invalid update is not stored', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity({
+      ...planetEntity,
+      schema: planetSchema,
+    });
+
+    const planet = await planetRepository.create({ name: 'Earth' });
+    await expect(
+      planetRepository.update({ ...planet, distance: 'far' as never })
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      planetRepository.updateMany([{ ...planet, name: '' }])
+    ).rejects.toThrow(ValidationError);
+
+    expect(await planetRepository.getById(planet.id)).toEqual(planet);
+    await superSave.close();
+  });
+
+  test('the parsed entity is stored', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity({
+      ...planetEntity,
+      schema: planetSchema.extend({ name: z.string().trim() }),
+    });
+
+    const [planet] = await planetRepository.createMany([
+      { name: ' Earth ', unknown: true } as never,
+    ]);
+    const storedPlanet = await planetRepository.getById(planet.id);
+    expect(storedPlanet?.name).toBe('Earth');
+    expect(storedPlanet).not.toHaveProperty('unknown');
+    await superSave.close();
+  });
+
+  test('relations are validated as ids', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity(planetEntity);
+    const moonRepository = await superSave.addEntity<Moon>({
+      ...moonEntity,
+      schema: z.object({ name: z.string(), planet: z.string() }),
+    });
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    const moon = await moonRepository.create({ name: 'Moon', planet: earth });
+    expect(moon.planet.name).toBe('Earth');
+    await superSave.close();
+  });
+});
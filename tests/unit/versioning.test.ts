@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { z } from 'zod';
+import {
+  ConflictError,
+  type EntityDefinition,
+  type Repository,
+  SuperSave,
+} from '../../dist/index.js';
+import getConnection from '../connection.js';
+import { planetEntity } from '../entities.js';
+import { clear } from '../mysql.js';
+import type { Planet } from '../types.js';
+
+beforeEach(clear);
+
+const versionedPlanetEntity: EntityDefinition = {
+  ...planetEntity,
+  filterSortFields: { name: 'string' },
+  versioning: true,
+};
+
+describe('versioning', () => {
+  test('every update increments the version', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(versionedPlanetEntity);
+
+    const planet = await planetRepository.create({ name: 'Earth' });
+    expect(planet.version).toBe(1);
+
+    const updated = await planetRepository.update({
+      ...planet,
+      name: 'Terra',
+    });
+    expect(updated.version).toBe(2);
+    expect((await planetRepository.getById(planet.id))?.version).toBe(2);
+    await superSave.close();
+  });
+
+  test('an update of an outdated version is rejected', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(versionedPlanetEntity);
+
+    const planet = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.update({ ...planet, name: 'Terra' });
+
+    const update = planetRepository.update({ ...planet, name: 'Gaia' });
+    await expect(update).rejects.toThrow(ConflictError);
+    await expect(update).rejects.toMatchObject({
+      entity: 'planet',
+      id: planet.id,
+    });
+    expect((await planetRepository.getById(planet.id))?.name).toBe('Terra');
+
+    // an entity without a version does not match either
+    const { version: _version, ...withoutVersion } = planet;
+    await expect(
+      planetRepository.update(withoutVersion as Planet)
+    ).rejects.toThrow(ConflictError);
+    await superSave.close();
+  });
+
+  test('update many stores nothing when one version does not match', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(versionedPlanetEntity);
+
+    const [earth, mars] = await planetRepository.createMany([
+      { name: 'Earth' },
+      { name: 'Mars' },
+    ]);
+    await planetRepository.update(mars);
+
+    await expect(
+      planetRepository.updateMany([
+        { ...earth, name: 'Terra' },
+        { ...mars, name: 'Ares' },
+      ])
+    ).rejects.toThrow(ConflictError);
+    const stored = await planetRepository.getByQuery(
+      planetRepository.createQuery().sort('name')
+    );
+    expect(stored.map((planet) => planet.name)).toEqual(['Earth', 'Mars']);
+    await superSave.close();
+  });
+
+  test('an update of a missing entity is not a conflict', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(versionedPlanetEntity);
+
+    const planet = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.deleteUsingId(planet.id);
+
+    expect(
+      await planetRepository.update({ ...planet, name: 'Terra' })
+    ).toBeNull();
+    expect(
+      await planetRepository.updateMany([{ ...planet, name: 'Terra' }])
+    ).toEqual([]);
+    expect(await planetRepository.getById(planet.id)).toBeNull();
+    await superSave.close();
+  });
+
+  test('a delete with an outdated version is rejected', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(versionedPlanetEntity);
+    const softDeletedRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>({
+        ...versionedPlanetEntity,
+        name: 'softplanet',
+        softDelete: true,
+      });
+
+    for (const repository of [planetRepository, softDeletedRepository]) {
+      const planet = await repository.create({ name: 'Earth' });
+      const updated = await repository.update({ ...planet, name: 'Terra' });
+
+      await expect(
+        repository.deleteUsingId(planet.id, { version: planet.version })
+      ).rejects.toThrow(ConflictError);
+      expect((await repository.getById(planet.id))?.name).toBe('Terra');
+
+      await repository.deleteUsingId(planet.id, { version: updated.version });
+      expect(await repository.getById(planet.id)).toBeNull();
+    }
+
+    // a missing entity is not a conflict
+    await planetRepository.deleteUsingId('missing', { version: 1 });
+    await superSave.close();
+  });
+
+  test('the version can be filtered on', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository: Repository<Planet> =
+      await superSave.addEntity<Planet>(versionedPlanetEntity);
+
+    const earth = await planetRepository.create({ name: 'Earth' });
+    await planetRepository.create({ name: 'Mars' });
+    await planetRepository.update(earth);
+
+    const updated = await planetRepository.getByQuery(
+      planetRepository.createQuery().gt('version', 1)
+    );
+    expect(updated.map((planet) => planet.name)).toEqual(['Earth']);
+    await superSave.close();
+  });
+
+  test('the version is kept when validating using a schema', async () => {
+    const superSave = await SuperSave.create(getConnection());
+    const planetRepository = await superSave.addEntity({
+      ...versionedPlanetEntity,
+      schema: z.object({ name: z.string() }),
+    });
+
+    const planet = await planetRepository.create({ name: 'Earth' });
+    expect(planet.version).toBe(1);
+    const updated = await planetRepository.update(planet);
+    expect(updated.version).toBe(2);
+    await superSave.close();
+  });
+});